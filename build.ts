@@ -123,6 +123,9 @@ const entrypoints = [...new Bun.Glob("**.html").scanSync("src")]
   .filter(dir => !dir.includes("node_modules"));
 console.log(`📄 Found ${entrypoints.length} HTML ${entrypoints.length === 1 ? "file" : "files"} to process\n`);
 
+// The render worker is loaded by URL at runtime, so it is its own entry point.
+entrypoints.push(path.resolve("src", "render-worker.ts"));
+
 const result = await Bun.build({
   entrypoints,
   outdir,
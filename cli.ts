@@ -0,0 +1,236 @@
+#!/usr/bin/env bun
+import { locateRenderError } from "@/lib/diagnostics";
+import {
+  DEFAULT_LAYER_SPACING,
+  DEFAULT_NODE_SPACING,
+  DEFAULT_RENDER_FONT,
+  DEFAULT_RENDER_PADDING,
+  isPngScale,
+  isRenderStyle,
+  isThemeName,
+  PNG_SCALES,
+  renderDiagram,
+  type PngScale,
+  type RenderLayout,
+  type RenderStyle,
+} from "@/lib/render";
+import { rasterizeSvgToPng } from "@/server/rasterize";
+import { THEMES, type ThemeName } from "beautiful-mermaid";
+import { existsSync } from "fs";
+import { mkdir } from "fs/promises";
+import path from "path";
+
+const USAGE = `
+🧜 Mermaid Studio CLI
+
+Usage: bun run cli.ts [options] <file|glob>...
+
+Options:
+  --theme <name>           beautiful-mermaid theme (default: "github-light")
+  --style <style>          svg|unicode|ascii (default: svg); text styles write <name>.<style>.txt
+  --png                    Also write a PNG next to each SVG (svg style only)
+  --scale <n>              PNG scale: ${PNG_SCALES.join("|")} (default: 2)
+  --font <family>          SVG font family (default: "${DEFAULT_RENDER_FONT}")
+  --padding <px>           SVG canvas padding (default: ${DEFAULT_RENDER_PADDING})
+  --node-spacing <px>      Gap between sibling nodes (default: ${DEFAULT_NODE_SPACING})
+  --layer-spacing <px>     Gap between layers (default: ${DEFAULT_LAYER_SPACING})
+  --out-dir <path>         Write outputs here instead of next to the inputs
+  --list-themes            Print available theme names and exit
+  --help, -h               Show this help message
+
+Example:
+  bun run cli.ts --theme nord --png --scale 8 --out-dir dist/diagrams "docs/**/*.mmd"
+`;
+
+type CliOptions = {
+  theme: ThemeName;
+  style: RenderStyle;
+  png: boolean;
+  scale: PngScale;
+  layout: RenderLayout;
+  outDir: string | null;
+  inputs: string[];
+};
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    theme: "github-light",
+    style: "svg",
+    png: false,
+    scale: 2,
+    layout: {},
+    outDir: null,
+    inputs: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("--")) {
+      options.inputs.push(arg);
+      continue;
+    }
+
+    let key = arg.slice(2);
+    let value: string | undefined;
+    if (key.includes("=")) {
+      [key, value] = key.split("=", 2) as [string, string];
+    }
+    const takeValue = (): string => {
+      const next = value ?? args[++i];
+      if (next === undefined || next === "") throw new UsageError(`--${key} needs a value.`);
+      return next;
+    };
+
+    switch (key) {
+      case "theme": {
+        const theme = takeValue();
+        if (!isThemeName(theme)) throw new UsageError(`Unknown theme "${theme}". See --list-themes.`);
+        options.theme = theme;
+        break;
+      }
+      case "style": {
+        const style = takeValue();
+        if (!isRenderStyle(style)) throw new UsageError(`Unknown style "${style}". Use svg, unicode or ascii.`);
+        options.style = style;
+        break;
+      }
+      case "png":
+        options.png = true;
+        break;
+      case "scale": {
+        const scale = Number(takeValue());
+        if (!isPngScale(scale)) throw new UsageError(`--scale must be one of ${PNG_SCALES.join(", ")}.`);
+        options.scale = scale;
+        break;
+      }
+      case "font":
+        options.layout.font = takeValue();
+        break;
+      case "padding":
+      case "node-spacing":
+      case "layer-spacing": {
+        const value = Number(takeValue());
+        if (!Number.isFinite(value) || value < 0) throw new UsageError(`--${key} must be a non-negative number.`);
+        options.layout[key === "padding" ? "padding" : key === "node-spacing" ? "nodeSpacing" : "layerSpacing"] = value;
+        break;
+      }
+      case "out-dir":
+        options.outDir = takeValue();
+        break;
+      default:
+        throw new UsageError(`Unknown option --${key}.`);
+    }
+  }
+
+  if (options.png && options.style !== "svg") {
+    throw new UsageError("--png needs --style svg.");
+  }
+  if (options.inputs.length === 0) {
+    throw new UsageError("No input files given.");
+  }
+  return options;
+}
+
+function expandInputs(patterns: string[]): string[] {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!/[*?[{]/.test(pattern)) {
+      files.add(pattern);
+      continue;
+    }
+    const matches = [...new Bun.Glob(pattern).scanSync({ cwd: process.cwd(), onlyFiles: true })];
+    if (matches.length === 0) {
+      console.error(`${pattern}: warning: pattern matched no files`);
+    }
+    for (const match of matches.sort()) files.add(match);
+  }
+  return [...files];
+}
+
+function getOutputPath(input: string, extension: string, outDir: string | null): string {
+  const parsed = path.parse(input);
+  if (!outDir) return path.join(parsed.dir, `${parsed.name}${extension}`);
+  const relativeDir = path.relative(process.cwd(), path.resolve(parsed.dir));
+  const targetDir = relativeDir.startsWith("..") || path.isAbsolute(relativeDir) ? "" : relativeDir;
+  return path.join(outDir, targetDir, `${parsed.name}${extension}`);
+}
+
+async function writeOutput(filePath: string, contents: string | Uint8Array): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await Bun.write(filePath, contents);
+  console.log(`  ✓ ${filePath}`);
+}
+
+async function renderFile(input: string, options: CliOptions): Promise<boolean> {
+  if (!existsSync(input)) {
+    console.error(`${input}: error: file not found`);
+    return false;
+  }
+  const source = await Bun.file(input).text();
+
+  let rendered;
+  try {
+    rendered = await renderDiagram(source, { theme: options.theme, style: options.style, layout: options.layout });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const { line, column } = locateRenderError(source, message);
+    console.error(`${input}:${line}:${column}: error: ${message}`);
+    return false;
+  }
+
+  if (rendered.style !== "svg") {
+    // `.txt` is also a source extension, so a plain `.txt` output could overwrite its own input.
+    await writeOutput(getOutputPath(input, `.${rendered.style}.txt`, options.outDir), rendered.text);
+    return true;
+  }
+  await writeOutput(getOutputPath(input, ".svg", options.outDir), rendered.svg);
+  if (options.png) {
+    try {
+      await writeOutput(
+        getOutputPath(input, ".png", options.outDir),
+        await rasterizeSvgToPng(rendered.svg, options.scale),
+      );
+    } catch (error) {
+      console.error(`${input}: error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+  return true;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (args.includes("--list-themes")) {
+    console.log(Object.keys(THEMES).sort().join("\n"));
+    return 0;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`error: ${error.message}\n${USAGE}`);
+    return 2;
+  }
+
+  const files = expandInputs(options.inputs);
+  let failures = 0;
+  for (const file of files) {
+    if (!(await renderFile(file, options))) failures++;
+  }
+
+  const rendered = files.length - failures;
+  console.log(
+    `\n${failures === 0 ? "✅" : "❌"} Rendered ${rendered}/${files.length} diagram${files.length === 1 ? "" : "s"}`,
+  );
+  return failures === 0 && files.length > 0 ? 0 : 1;
+}
+
+process.exit(await main());
@@ -1,75 +1,273 @@
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { normalizeHexColor } from "@/lib/color";
+import {
+  type CompletionItem,
+  type CompletionKind,
+  type CompletionResult,
+  detectDiagramKind,
+  getCompletions,
+} from "@/lib/completions";
+import {
+  createCustomTheme,
+  type CustomTheme,
+  isCustomThemeId,
+  parseCustomThemesJson,
+  serializeCustomTheme,
+  THEME_COLOR_KEYS,
+  ThemeImportError,
+} from "@/lib/custom-themes";
+import {
+  type Diagnostic,
+  getDiagnosticOffset,
+  getRenderDiagnostic,
+} from "@/lib/diagnostics";
+import {
+  canWriteFileHandle,
+  type DocumentFileLink,
+  PAIRED_EXPORT_KINDS,
+  type PairedExportKind,
+  pickFileToOpen,
+  pickFileToSave,
+  SAVE_FILE_EXTENSIONS,
+  supportsFileSystemAccess,
+  writeFileHandle,
+} from "@/lib/file-access";
+import { applyFlowchartEdit, type FlowchartEdit } from "@/lib/flowchart-edits";
+import { escapeHtml, type LineRange } from "@/lib/highlight";
+import { createHtmlSnippet } from "@/lib/html-snippet";
+import {
+  checkCanvasSize,
+  getCanvasPixelSize,
+  type ImageSize,
+  isImageScale,
+  MAX_IMAGE_SCALE,
+  MIN_IMAGE_SCALE,
+  resolveImageScale,
+} from "@/lib/image-size";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  type EditHistory,
+  getChangeCaret,
+  getHistorySource,
+  recordEdit,
+  redo,
+  restoreHistory,
+  undo,
+} from "@/lib/history";
+import {
+  extractMermaidBlocks,
+  type MermaidBlock,
+  replaceMermaidBlocks,
+} from "@/lib/markdown";
+import {
+  createPdfFromSvg,
+  DEFAULT_PDF_OPTIONS,
+  PDF_PAGE_SIZES,
+  type PdfOptions,
+  type PdfOrientation,
+  type PdfPageSize,
+} from "@/lib/pdf";
+import {
+  createPublishSvg,
+  formatByteSize,
+  type PublishedSvg,
+} from "@/lib/publish-svg";
+import {
+  getRenderClient,
+  isRenderCancelled,
+  type RenderTiming,
+} from "@/lib/render-client";
+import {
+  DEFAULT_ASCII_BOX_PADDING,
+  DEFAULT_ASCII_PADDING,
+  DEFAULT_LAYER_SPACING,
+  DEFAULT_NODE_SPACING,
+  DEFAULT_RASTER_OPTIONS,
+  DEFAULT_RENDER_FONT,
+  DEFAULT_RENDER_PADDING,
+  type EmbeddedFont,
+  getAsciiTheme,
+  getThemeColor,
+  isThemeName,
+  PNG_SCALES,
+  RASTER_FORMATS,
+  type RasterFormat,
+  type RasterOptions,
+  type RenderLayout,
+  type RenderStyle,
+  type RenderTheme,
+  resolveThemeColors,
+  type ThemeColorKey,
+} from "@/lib/render";
+import {
+  findMatches,
+  replaceAllMatches,
+  replaceMatch,
+  type SearchOptions,
+} from "@/lib/search";
 import {
   clearDiagramTokenFromUrl,
   decodeDiagramToken,
   encodeDiagramToken,
   readDiagramTokenFromUrl,
+  type SharePayload,
   writeDiagramTokenToUrl,
 } from "@/lib/share-link";
+import {
+  applyExportFrame,
+  DEFAULT_EXPORT_FRAME,
+  type ExportBackground,
+  type ExportFrame,
+  extractSvgSize,
+  type SvgSize,
+} from "@/lib/svg";
+import {
+  expandSnippet,
+  mapSnippetSession,
+  type SnippetSession,
+  type TextRange,
+} from "@/lib/snippets";
+import {
+  buildSourceMap,
+  type DiagramElementRef,
+  findDiagramElements,
+  findElementSource,
+  findElementsAt,
+  getDiagramElementRef,
+} from "@/lib/source-map";
+import { embedStudioMetadata, readStudioMetadata } from "@/lib/svg-metadata";
+import {
+  deletePair,
+  findMatchingBracket,
+  indentSelection,
+  insertPairedCharacter,
+  type TextEdit,
+  toggleLineComment,
+} from "@/lib/text-editing";
+import { getTextareaCaretPosition } from "@/lib/textarea-caret";
 import { cn } from "@/lib/utils";
 import {
-  THEMES,
-  renderMermaidSVGAsync,
-  renderMermaidASCII,
-  type ThemeName,
-} from "beautiful-mermaid";
+  createWorkspaceDocument,
+  getUniqueDocumentName,
+  UNTITLED_DOCUMENT_NAME,
+  type WorkspaceDocument,
+} from "@/lib/workspace";
 import {
+  loadCustomThemes,
+  loadFileLinks,
+  loadWorkspace,
+  putCustomTheme,
+  putDocument,
+  putFileLink,
+  removeCustomTheme,
+  removeDocument,
+  removeFileLink,
+  saveActiveDocumentId,
+} from "@/lib/workspace-store";
+import { type DiagramColors, THEMES, type ThemeName } from "beautiful-mermaid";
+import {
+  BookOpen,
+  Bug,
   Check,
+  ChevronDown,
+  ChevronUp,
   ClipboardCopy,
+  Code,
+  CircleAlert,
   Code2,
   Copy,
+  CopyPlus,
   Download,
   Eye,
+  FileDown,
   FileImage,
+  FilePlus2,
+  FileText,
+  FileUp,
+  FolderOpen,
+  Frame,
+  Globe,
+  HardDrive,
   Link2,
   Minus,
   MoonStar,
+  Paintbrush,
   Palette,
+  Pencil,
   Plus,
+  Redo2,
+  RefreshCw,
+  Replace,
+  Save,
   ScanSearch,
+  SlidersHorizontal,
   SunMedium,
   Terminal,
+  Trash2,
+  TriangleAlert,
+  Undo2,
+  X,
 } from "lucide-react";
-import { createHighlighterCore } from "shiki/core";
-import { createJavaScriptRegexEngine } from "shiki/engine/javascript";
-import langMermaid from "shiki/langs/mermaid.mjs";
-import themeCatppuccinLatte from "shiki/themes/catppuccin-latte.mjs";
-import themeCatppuccinMocha from "shiki/themes/catppuccin-mocha.mjs";
-import themeDracula from "shiki/themes/dracula.mjs";
-import themeGithubDark from "shiki/themes/github-dark.mjs";
-import themeGithubLight from "shiki/themes/github-light.mjs";
-import themeNord from "shiki/themes/nord.mjs";
-import themeOneDarkPro from "shiki/themes/one-dark-pro.mjs";
-import themeSolarizedDark from "shiki/themes/solarized-dark.mjs";
-import themeSolarizedLight from "shiki/themes/solarized-light.mjs";
-import themeTokyoNight from "shiki/themes/tokyo-night.mjs";
 import {
   memo,
   type ReactNode,
   useCallback,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
 } from "react";
 import "./index.css";
 
 /* ─── Types ─── */
 
 type ThemeMode = "light" | "dark";
-type RenderStyle = "svg" | "unicode" | "ascii";
-type SvgSize = { width: number; height: number };
 type Transform = { x: number; y: number; scale: number };
+/** Text pushed into the editor from outside; a new object always applies. */
+type SourceSeed = { source: string; caret?: number };
+/** Ask the source editor to select where a diagram element is defined; `id` tells repeat requests apart. */
+type ElementRevealRequest = { element: DiagramElementRef; id: number };
+type ExportKind = "svg" | "image" | "publish" | "pdf";
+/** PDF layout plus whether to print the diagram name and export time. */
+type PdfSettings = Omit<PdfOptions, "title" | "footer"> & {
+  showTitle: boolean;
+  showFooter: boolean;
+};
+/**
+ * A markdown file opened for its mermaid blocks. Blocks are edited as
+ * workspace documents; the file text stays untouched until export.
+ */
+type MarkdownSession = {
+  fileName: string;
+  text: string;
+  blocks: MermaidBlock[];
+  /** Workspace document editing each block, by block index. */
+  documentIds: Record<number, string>;
+};
+/** A publishing SVG build, with the size of the plain export it started from. */
+type PublishSnapshot = PublishedSvg & { originalBytes: number };
 type DragState = {
   pointerId: number;
+  /** What the pointer went down on, for telling a click on the diagram from a pan. */
+  target: EventTarget;
+  /** Set when the press started on a node in visual edit mode: the drag draws an edge from it. */
+  connect?: { from: string; x: number; y: number };
   startClientX: number;
   startClientY: number;
   startX: number;
@@ -82,9 +280,11 @@ const MERMAID_THEME_BY_MODE = {
   light: "github-light",
   dark: "github-dark",
 } as const;
-const PNG_SCALES = [1, 2, 8, 16] as const;
 const MIN_SCALE = 0.2;
 const MAX_SCALE = 16;
+const DEFAULT_IMAGE_SCALE = 2;
+/** Pointer travel, in pixels, below which a press on the preview counts as a click. */
+const CLICK_MOVE_TOLERANCE = 4;
 
 const DIAGRAM_PRESETS = {
   Flowchart: `graph TD
@@ -172,10 +372,6 @@ const SHIKI_THEME_BY_MERMAID_THEME = {
   Record<ThemeName, string | Record<ThemeMode, string>>
 >;
 
-let globalShikiHighlighterPromise: Promise<
-  Awaited<ReturnType<typeof createHighlighterCore>>
-> | null = null;
-
 function getShikiThemeName(theme: ThemeName, mode: ThemeMode): string {
   const mappedTheme =
     SHIKI_THEME_BY_MERMAID_THEME[
@@ -185,72 +381,156 @@ function getShikiThemeName(theme: ThemeName, mode: ThemeMode): string {
   return typeof mappedTheme === "string" ? mappedTheme : mappedTheme[mode];
 }
 
-function getGlobalShikiHighlighter() {
-  if (!globalShikiHighlighterPromise) {
-    globalShikiHighlighterPromise = createHighlighterCore({
-      themes: [
-        themeCatppuccinLatte,
-        themeCatppuccinMocha,
-        themeDracula,
-        themeGithubDark,
-        themeGithubLight,
-        themeNord,
-        themeOneDarkPro,
-        themeSolarizedDark,
-        themeSolarizedLight,
-        themeTokyoNight,
-      ],
-      langs: [langMermaid],
-      engine: createJavaScriptRegexEngine(),
-    });
-  }
-  return globalShikiHighlighterPromise;
+function formatDuration(ms: number): string {
+  return ms < 10 ? `${ms.toFixed(1)} ms` : `${Math.round(ms)} ms`;
 }
 
-function escapeHtml(value: string): string {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
+/**
+ * Mirror of the source with diagnostic ranges wrapped for squiggles and a
+ * gutter marker on each affected line. Text stays transparent so this layer
+ * lines up under the highlighted one.
+ */
+function renderDiagnosticLines(
+  source: string,
+  diagnostics: readonly Diagnostic[],
+): string {
+  const byLine = new Map<number, Diagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    byLine.set(diagnostic.line, [
+      ...(byLine.get(diagnostic.line) ?? []),
+      diagnostic,
+    ]);
+  }
+
+  return source
+    .split("\n")
+    .map((text, index) => {
+      const lineDiagnostics = byLine.get(index + 1);
+      if (!lineDiagnostics) return text ? escapeHtml(text) : " ";
+      const severity = lineDiagnostics.some((d) => d.severity === "error")
+        ? "error"
+        : "warning";
+      const start = Math.min(
+        Math.min(...lineDiagnostics.map((d) => d.column)) - 1,
+        text.length,
+      );
+      const end = Math.min(
+        Math.max(...lineDiagnostics.map((d) => d.endColumn)) - 1,
+        text.length,
+      );
+      const range = end > start ? text.slice(start, end) : " ";
+      return [
+        `<span class="diagnostic-line" data-severity="${severity}">`,
+        `<span class="diagnostic-marker"></span>`,
+        escapeHtml(text.slice(0, start)),
+        `<span class="diagnostic-squiggle">${escapeHtml(range)}</span>`,
+        escapeHtml(text.slice(Math.max(start, end))),
+        "</span>",
+      ].join("");
+    })
+    .join("\n");
 }
 
-function renderShikiTokenLines(
-  lines: Array<
-    Array<{
-      content: string;
-      color?: string | undefined;
-      fontStyle?: number | undefined;
-    }>
-  >,
-  fallbackColor: string,
+type EditorDecoration = TextRange & { className: string };
+
+/**
+ * Mirror of the source with a numbered span per line (the number is drawn
+ * in the gutter by CSS) and `decorations` wrapped for search matches and
+ * bracket pairs. Decorations must be sorted and must not overlap.
+ */
+function renderEditorDecorations(
+  source: string,
+  decorations: readonly EditorDecoration[],
 ): string {
-  return lines
-    .map((line) => {
-      if (line.length === 0) return " ";
-      return line
-        .map((token) => {
-          const styles = [`color:${token.color ?? fallbackColor}`];
-          if ((token.fontStyle ?? 0) & 1) styles.push("font-style:italic");
-          if ((token.fontStyle ?? 0) & 2) styles.push("font-weight:700");
-          if ((token.fontStyle ?? 0) & 4)
-            styles.push("text-decoration:underline");
-          return `<span style=\"${styles.join(";")}\">${escapeHtml(token.content)}</span>`;
-        })
-        .join("");
+  let lineStart = 0;
+  let first = 0;
+  return source
+    .split("\n")
+    .map((text, index) => {
+      const lineEnd = lineStart + text.length;
+      while (first < decorations.length && decorations[first]!.end <= lineStart)
+        first++;
+      let html = "";
+      let cursor = 0;
+      for (let next = first; next < decorations.length; next++) {
+        const decoration = decorations[next]!;
+        if (decoration.start >= lineEnd) break;
+        const start = Math.max(decoration.start - lineStart, cursor);
+        const end = Math.min(decoration.end - lineStart, text.length);
+        if (end <= start) continue;
+        html += `${escapeHtml(text.slice(cursor, start))}<span class="${decoration.className}">${escapeHtml(text.slice(start, end))}</span>`;
+        cursor = end;
+      }
+      html += escapeHtml(text.slice(cursor));
+      lineStart = lineEnd + 1;
+      return `<span class="editor-line" data-line="${index + 1}">${html || " "}</span>`;
     })
     .join("\n");
 }
 
-async function buildShareUrlForSource(
-  source: string,
+/** Select `range` in a textarea without focusing it, scrolling it into view if needed. */
+function revealTextareaRange(
+  textarea: HTMLTextAreaElement,
+  range: TextRange,
+): void {
+  textarea.setSelectionRange(range.start, range.end);
+  const position = getTextareaCaretPosition(textarea, range.start);
+  if (
+    position.top < 0 ||
+    position.top + position.height > textarea.clientHeight
+  ) {
+    textarea.scrollTop += position.top - textarea.clientHeight / 3;
+  }
+}
+
+/**
+ * Source lines on screen in the editor, measured on the per-line spans of a
+ * layer that wraps exactly like the textarea.
+ */
+function getVisibleLineRange(
+  textarea: HTMLTextAreaElement,
+  lineContainer: HTMLElement,
+): LineRange {
+  const lines = lineContainer.children;
+  const findFirstLineBelow = (top: number) => {
+    let low = 0;
+    let high = lines.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((lines[middle] as HTMLElement).offsetTop < top) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+  return {
+    start: Math.max(0, findFirstLineBelow(textarea.scrollTop) - 1),
+    end: findFirstLineBelow(textarea.scrollTop + textarea.clientHeight),
+  };
+}
+
+/** Settings a link without a token would open with anyway. */
+function hasDefaultShareSettings(payload: SharePayload): boolean {
+  const mode = getPreferredMode();
+  return (
+    payload.mode === mode &&
+    payload.theme === MERMAID_THEME_BY_MODE[mode] &&
+    payload.style === "svg" &&
+    (payload.pngScale ?? DEFAULT_IMAGE_SCALE) === DEFAULT_IMAGE_SCALE &&
+    payload.view === undefined
+  );
+}
+
+async function buildShareUrlForPayload(
+  payload: SharePayload,
   currentUrl: URL,
 ): Promise<URL> {
-  if (source.trim().length === 0 || PRESET_SOURCES.has(source)) {
+  if (
+    payload.source.trim().length === 0 ||
+    (PRESET_SOURCES.has(payload.source) && hasDefaultShareSettings(payload))
+  ) {
     return clearDiagramTokenFromUrl(currentUrl);
   }
-  const token = await encodeDiagramToken(source);
+  const token = await encodeDiagramToken(payload);
   return writeDiagramTokenToUrl(currentUrl, token);
 }
 
@@ -267,69 +547,6 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function parseHexColor(
-  value: string,
-): { r: number; g: number; b: number } | null {
-  const normalized = value.trim().replace(/^#/, "");
-  if (normalized.length === 3) {
-    const r = Number.parseInt(normalized[0]! + normalized[0]!, 16);
-    const g = Number.parseInt(normalized[1]! + normalized[1]!, 16);
-    const b = Number.parseInt(normalized[2]! + normalized[2]!, 16);
-    return Number.isNaN(r) || Number.isNaN(g) || Number.isNaN(b)
-      ? null
-      : { r, g, b };
-  }
-  if (normalized.length === 6) {
-    const r = Number.parseInt(normalized.slice(0, 2), 16);
-    const g = Number.parseInt(normalized.slice(2, 4), 16);
-    const b = Number.parseInt(normalized.slice(4, 6), 16);
-    return Number.isNaN(r) || Number.isNaN(g) || Number.isNaN(b)
-      ? null
-      : { r, g, b };
-  }
-  return null;
-}
-
-function mixHexColors(
-  foreground: string,
-  background: string,
-  foregroundPercent: number,
-): string {
-  const fg = parseHexColor(foreground);
-  const bg = parseHexColor(background);
-  if (!fg || !bg) return foreground;
-  const weight = clamp(foregroundPercent, 0, 100) / 100;
-  const mixChannel = (a: number, b: number) =>
-    Math.round(a * weight + b * (1 - weight));
-  const r = mixChannel(fg.r, bg.r);
-  const g = mixChannel(fg.g, bg.g);
-  const b = mixChannel(fg.b, bg.b);
-  return `#${r.toString(16).padStart(2, "0")}${g.toString(16).padStart(2, "0")}${b.toString(16).padStart(2, "0")}`;
-}
-
-function extractSvgSize(svgMarkup: string): SvgSize | null {
-  if (typeof DOMParser === "undefined") return null;
-  const doc = new DOMParser().parseFromString(svgMarkup, "image/svg+xml");
-  const svg = doc.querySelector("svg");
-  if (!svg) return null;
-
-  const viewBox = svg.getAttribute("viewBox");
-  if (viewBox) {
-    const values = viewBox
-      .trim()
-      .split(/\s+/)
-      .map(Number.parseFloat)
-      .filter(Number.isFinite);
-    if (values.length === 4 && values[2] > 0 && values[3] > 0) {
-      return { width: values[2], height: values[3] };
-    }
-  }
-
-  const width = Number.parseFloat(svg.getAttribute("width") ?? "");
-  const height = Number.parseFloat(svg.getAttribute("height") ?? "");
-  return width > 0 && height > 0 ? { width, height } : null;
-}
-
 function loadImage(url: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const image = new Image();
@@ -340,6 +557,17 @@ function loadImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
+const RASTER_FORMAT_LABELS: Record<RasterFormat, string> = {
+  png: "PNG",
+  webp: "WebP",
+  jpeg: "JPEG",
+};
+const RASTER_FILE_EXTENSIONS: Record<RasterFormat, string> = {
+  png: "png",
+  webp: "webp",
+  jpeg: "jpg",
+};
+
 function triggerDownload(blob: Blob, fileName: string): void {
   const objectUrl = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
@@ -439,27 +667,287 @@ function Badge({ children, dot }: { children: ReactNode; dot?: boolean }) {
   );
 }
 
+type DocumentTabsProps = {
+  documents: WorkspaceDocument[];
+  activeDocumentId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const DocumentTabs = memo(function DocumentTabs({
+  documents,
+  activeDocumentId,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: DocumentTabsProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = useCallback((document: WorkspaceDocument) => {
+    setRenamingId(document.id);
+    setDraftName(document.name);
+  }, []);
+
+  const finishRename = useCallback(() => {
+    if (!renamingId) return;
+    const name = draftName.trim();
+    if (name) onRename(renamingId, name);
+    setRenamingId(null);
+  }, [draftName, onRename, renamingId]);
+
+  return (
+    <div
+      className="reveal-up flex items-center gap-1 overflow-x-auto rounded-xl border border-border bg-card p-1 shadow-sm"
+      style={{ animationDelay: "30ms" }}
+      role="tablist"
+      aria-label="Diagrams"
+    >
+      {documents.map((document) => {
+        const isActive = document.id === activeDocumentId;
+        return (
+          <div
+            key={document.id}
+            className={cn(
+              "group flex shrink-0 items-center gap-1 rounded-md pl-2.5 pr-1 text-xs font-medium transition-colors",
+              isActive
+                ? "bg-muted text-foreground"
+                : "text-muted-foreground hover:bg-accent hover:text-foreground",
+            )}
+          >
+            {renamingId === document.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(event) => setDraftName(event.currentTarget.value)}
+                onBlur={finishRename}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") finishRename();
+                  if (event.key === "Escape") setRenamingId(null);
+                }}
+                className="h-7 w-32 bg-transparent outline-none"
+                aria-label="Diagram name"
+              />
+            ) : (
+              <button
+                type="button"
+                role="tab"
+                aria-selected={isActive}
+                className="h-7 max-w-40 truncate"
+                onClick={() => onSelect(document.id)}
+                onDoubleClick={() => startRename(document)}
+                title={`${document.name} (double-click to rename)`}
+              >
+                {document.name}
+              </button>
+            )}
+            <button
+              type="button"
+              className="flex size-5 items-center justify-center rounded opacity-0 transition-opacity hover:bg-background group-hover:opacity-100 focus-visible:opacity-100"
+              onClick={() => onDelete(document.id)}
+              title={`Delete ${document.name}`}
+            >
+              <X className="size-3" />
+            </button>
+          </div>
+        );
+      })}
+      <div className="ml-auto flex shrink-0 items-center">
+        <button
+          type="button"
+          className="flex size-7 items-center justify-center rounded-md text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-50"
+          onClick={onDuplicate}
+          disabled={!activeDocumentId}
+          title="Duplicate diagram"
+        >
+          <CopyPlus className="size-3.5" />
+        </button>
+        <button
+          type="button"
+          className="flex size-7 items-center justify-center rounded-md text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+          onClick={onCreate}
+          title="New diagram"
+        >
+          <FilePlus2 className="size-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+});
+
+type DiskFileBarProps = {
+  link: DocumentFileLink | null;
+  isDirty: boolean;
+  canSaveInPlace: boolean;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onToggleAutosave: () => void;
+  onTogglePairedExport: (kind: PairedExportKind) => void;
+  onUnlink: () => void;
+};
+
+const DiskFileBar = memo(function DiskFileBar({
+  link,
+  isDirty,
+  canSaveInPlace,
+  onSave,
+  onSaveAs,
+  onToggleAutosave,
+  onTogglePairedExport,
+  onUnlink,
+}: DiskFileBarProps) {
+  return (
+    <div
+      className="reveal-up flex flex-wrap items-center gap-2 rounded-xl border border-border bg-card px-2.5 py-1.5 text-xs shadow-sm"
+      style={{ animationDelay: "45ms" }}
+    >
+      <HardDrive className="size-3.5 shrink-0 text-muted-foreground" />
+      <span
+        className={cn(
+          "min-w-0 flex-1 truncate",
+          link ? "font-mono" : "text-muted-foreground",
+        )}
+        title={link ? link.file.name : undefined}
+      >
+        {link
+          ? link.file.name
+          : canSaveInPlace
+            ? "Not saved to a file"
+            : "Saving downloads a .mmd file"}
+        {link && isDirty ? (
+          <span
+            className="ml-1.5 inline-block size-1.5 rounded-full bg-primary align-middle"
+            title="Unsaved changes"
+          />
+        ) : null}
+      </span>
+      {link ? (
+        <ButtonGroup>
+          <ButtonGroupItem
+            className={cn(link.autosave && "bg-accent text-accent-foreground")}
+            aria-pressed={link.autosave}
+            onClick={onToggleAutosave}
+            title="Write the source to the file as you type"
+          >
+            Autosave
+          </ButtonGroupItem>
+          {PAIRED_EXPORT_KINDS.map((kind) => (
+            <ButtonGroupItem
+              key={kind}
+              className={cn(link[kind] && "bg-accent text-accent-foreground")}
+              aria-pressed={Boolean(link[kind])}
+              onClick={() => onTogglePairedExport(kind)}
+              title={
+                link[kind]
+                  ? `Re-exported to ${link[kind].name} on every save (click to stop)`
+                  : `Also export ${kind.toUpperCase()} next to the file on every save`
+              }
+            >
+              +{kind.toUpperCase()}
+            </ButtonGroupItem>
+          ))}
+        </ButtonGroup>
+      ) : null}
+      <div className="flex items-center gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1.5 px-2.5 text-xs"
+          onClick={onSave}
+          title="Save (Ctrl+S)"
+        >
+          <Save className="size-3" /> Save
+        </Button>
+        {canSaveInPlace ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={onSaveAs}
+            title="Save as (Ctrl+Shift+S)"
+          >
+            Save as
+          </Button>
+        ) : null}
+        {link ? (
+          <button
+            type="button"
+            className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            onClick={onUnlink}
+            title="Forget this file (the file itself is kept)"
+          >
+            <X className="size-3.5" />
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+});
+
 type SourceEditorPanelProps = {
-  sourceSeed: string;
+  sourceSeed: SourceSeed;
   shikiTheme: string;
-  onSourceInput: (source: string) => void;
+  diagnostics: Diagnostic[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onSourceInput: (source: string, options?: { checkpoint?: boolean }) => void;
   onSourceCommit: (source: string) => void;
   onApplyPreset: (preset: DiagramPreset) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  revealElement: ElementRevealRequest | null;
+  /** Diagram elements defined where the editor selection is. */
+  onLinkedElementsChange: (elements: DiagramElementRef[]) => void;
 };
 
 const SourceEditorHeader = memo(function SourceEditorHeader({
   activePreset,
+  canUndo,
+  canRedo,
   onPresetChange,
   onApplyPreset,
+  onUndo,
+  onRedo,
 }: {
   activePreset: DiagramPreset;
+  canUndo: boolean;
+  canRedo: boolean;
   onPresetChange: (preset: DiagramPreset) => void;
   onApplyPreset: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
 }) {
   return (
     <PanelHeader>
       <PanelTab icon={Code2} label="Source" />
       <div className="flex items-center gap-2">
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="size-7"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="size-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="size-7"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="size-3.5" />
+          </Button>
+        </div>
         <Select
           value={activePreset}
           onValueChange={(v) => onPresetChange(v as DiagramPreset)}
@@ -492,49 +980,375 @@ const SourceEditorHeader = memo(function SourceEditorHeader({
   );
 });
 
+type SourceSearch = SearchOptions & {
+  query: string;
+  replacement: string;
+  showReplace: boolean;
+};
+
+const DEFAULT_SOURCE_SEARCH: SourceSearch = {
+  query: "",
+  replacement: "",
+  regex: false,
+  caseSensitive: false,
+  showReplace: false,
+};
+
+type SourceSearchBarProps = {
+  search: SourceSearch;
+  matchCount: number;
+  activeIndex: number;
+  error: string | null;
+  /** Changes whenever the find field should take focus again. */
+  focusRequest: number;
+  onChange: (search: SourceSearch) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+};
+
+const SourceSearchBar = memo(function SourceSearchBar({
+  search,
+  matchCount,
+  activeIndex,
+  error,
+  focusRequest,
+  onChange,
+  onNext,
+  onPrevious,
+  onReplace,
+  onReplaceAll,
+  onClose,
+}: SourceSearchBarProps) {
+  const queryInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    queryInputRef.current?.focus();
+    queryInputRef.current?.select();
+  }, [focusRequest]);
+
+  const handleQueryKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.shiftKey) onPrevious();
+      else onNext();
+    }
+  };
+
+  const handleReplacementKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement>,
+  ) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      onReplace();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5 border-b border-border bg-muted/40 px-4 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Input
+          ref={queryInputRef}
+          value={search.query}
+          onChange={(event) =>
+            onChange({ ...search, query: event.currentTarget.value })
+          }
+          onKeyDown={handleQueryKeyDown}
+          placeholder="Find"
+          aria-label="Find"
+          aria-invalid={error !== null}
+          spellCheck={false}
+          className="h-7 min-w-0 flex-1 px-2 font-mono text-xs md:text-xs"
+        />
+        <ButtonGroup>
+          <ButtonGroupItem
+            aria-pressed={search.caseSensitive}
+            className={cn(
+              "font-mono",
+              search.caseSensitive && "bg-accent text-accent-foreground",
+            )}
+            onClick={() =>
+              onChange({ ...search, caseSensitive: !search.caseSensitive })
+            }
+            title="Match case"
+          >
+            Aa
+          </ButtonGroupItem>
+          <ButtonGroupItem
+            aria-pressed={search.regex}
+            className={cn(
+              "font-mono",
+              search.regex && "bg-accent text-accent-foreground",
+            )}
+            onClick={() => onChange({ ...search, regex: !search.regex })}
+            title="Regular expression"
+          >
+            .*
+          </ButtonGroupItem>
+        </ButtonGroup>
+        <span className="w-16 shrink-0 text-center text-muted-foreground tabular-nums">
+          {error
+            ? "Invalid"
+            : matchCount === 0
+              ? "No results"
+              : `${activeIndex + 1} of ${matchCount}`}
+        </span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="size-7"
+            onClick={onPrevious}
+            disabled={matchCount === 0}
+            title="Previous match (Shift+Enter)"
+          >
+            <ChevronUp className="size-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="size-7"
+            onClick={onNext}
+            disabled={matchCount === 0}
+            title="Next match (Enter)"
+          >
+            <ChevronDown className="size-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className={cn(
+              "size-7",
+              search.showReplace && "bg-accent text-accent-foreground",
+            )}
+            onClick={() =>
+              onChange({ ...search, showReplace: !search.showReplace })
+            }
+            title="Replace (Ctrl+H)"
+          >
+            <Replace className="size-3.5" />
+          </Button>
+        </div>
+        <button
+          type="button"
+          className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          onClick={onClose}
+          title="Close (Esc)"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+      {search.showReplace ? (
+        <div className="flex items-center gap-2">
+          <Input
+            value={search.replacement}
+            onChange={(event) =>
+              onChange({ ...search, replacement: event.currentTarget.value })
+            }
+            onKeyDown={handleReplacementKeyDown}
+            placeholder={search.regex ? "Replace ($1 for groups)" : "Replace"}
+            aria-label="Replace"
+            spellCheck={false}
+            className="h-7 min-w-0 flex-1 px-2 font-mono text-xs md:text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2.5 text-xs"
+            onClick={onReplace}
+            disabled={matchCount === 0}
+            title="Replace this match (Enter)"
+          >
+            Replace
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2.5 text-xs"
+            onClick={onReplaceAll}
+            disabled={matchCount === 0}
+            title="Replace every match"
+          >
+            All
+          </Button>
+        </div>
+      ) : null}
+      {error ? <p className="m-0 text-destructive">{error}</p> : null}
+    </div>
+  );
+});
+
+const COMPLETION_KIND_LABELS: Record<CompletionKind, string> = {
+  keyword: "keyword",
+  node: "node",
+  arrow: "arrow",
+  participant: "actor",
+  member: "member",
+  cardinality: "relation",
+  snippet: "snippet",
+};
+/** Typed characters that open suggestions: names, arrow and marker symbols, and spaces after a token. */
+const COMPLETION_TRIGGER_PATTERN = /[\w\-=.<>|~{}*) ]/;
+const COMPLETION_POPUP_WIDTH = 288;
+/** Lines highlighted beyond each edge of the editor viewport. */
+const HIGHLIGHT_OVERSCAN_LINES = 40;
+/** The highlighted window snaps to multiples of this, so scrolling re-highlights in steps. */
+const HIGHLIGHT_WINDOW_STEP = 50;
+
+type CompletionPopup = CompletionResult & {
+  selected: number;
+  top: number;
+  left: number;
+};
+
 const SourceEditorPanel = memo(function SourceEditorPanel({
   sourceSeed,
   shikiTheme,
+  diagnostics,
+  canUndo,
+  canRedo,
   onSourceInput,
   onSourceCommit,
   onApplyPreset,
+  onUndo,
+  onRedo,
+  revealElement,
+  onLinkedElementsChange,
 }: SourceEditorPanelProps) {
   const [activePreset, setActivePreset] =
     useState<DiagramPreset>(DEFAULT_PRESET);
-  const [source, setSource] = useState<string>(sourceSeed);
+  const [source, setSource] = useState<string>(sourceSeed.source);
   const [sourceHighlightHtml, setSourceHighlightHtml] = useState("");
+  const [highlightWindow, setHighlightWindow] = useState<LineRange>({
+    start: 0,
+    end: HIGHLIGHT_WINDOW_STEP * 2,
+  });
+  const [completion, setCompletion] = useState<CompletionPopup | null>(null);
+  const [search, setSearch] = useState<SourceSearch | null>(null);
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  /** Collapsed caret offset while the editor has focus, for bracket matching. */
+  const [caret, setCaret] = useState<number | null>(null);
 
   const sourceTextareaRef = useRef<HTMLTextAreaElement | null>(null);
   const sourceHighlightContentRef = useRef<HTMLPreElement | null>(null);
+  const diagnosticContentRef = useRef<HTMLPreElement | null>(null);
+  const completionListRef = useRef<HTMLUListElement | null>(null);
+  const pendingSelectionRef = useRef<TextRange | null>(null);
+  const snippetSessionRef = useRef<SnippetSession | null>(null);
+  const sourceDecorationContentRef = useRef<HTMLPreElement | null>(null);
+  /** Search match to select once a replacement is rendered, keeping focus in the search bar. */
+  const pendingRevealRef = useRef<TextRange | null>(null);
+  /** Where the caret was when the search opened; results start there. */
+  const searchAnchorRef = useRef(0);
+  const highlightWindowFrameRef = useRef<number | null>(null);
+  const linkedElementsKeyRef = useRef("");
+  // A remounted editor must not replay the request that was handled before.
+  const handledRevealIdRef = useRef(revealElement?.id ?? 0);
+
+  const sourceMap = useMemo(() => buildSourceMap(source), [source]);
+
+  const reportLinkedElements = useCallback(
+    (selection: TextRange) => {
+      const elements = findElementsAt(sourceMap, selection);
+      const key = JSON.stringify(elements);
+      if (key === linkedElementsKeyRef.current) return;
+      linkedElementsKeyRef.current = key;
+      onLinkedElementsChange(elements);
+    },
+    [onLinkedElementsChange, sourceMap],
+  );
+
+  // Typing changes what the caret sits on without moving the selection.
+  useEffect(() => {
+    const editor = sourceTextareaRef.current;
+    if (!editor || document.activeElement !== editor) return;
+    reportLinkedElements({
+      start: editor.selectionStart,
+      end: editor.selectionEnd,
+    });
+  }, [reportLinkedElements]);
+
+  // A newly opened document starts with nothing linked.
+  useEffect(() => {
+    onLinkedElementsChange([]);
+  }, [onLinkedElementsChange]);
+
+  useEffect(() => {
+    const editor = sourceTextareaRef.current;
+    if (
+      !editor ||
+      !revealElement ||
+      revealElement.id === handledRevealIdRef.current
+    )
+      return;
+    handledRevealIdRef.current = revealElement.id;
+    const entry = findElementSource(sourceMap, revealElement.element);
+    if (!entry) return;
+    editor.focus({ preventScroll: true });
+    revealTextareaRange(editor, entry.range);
+  }, [revealElement, sourceMap]);
 
   useEffect(() => {
-    setSource(sourceSeed);
+    setSource(sourceSeed.source);
+    const caret = sourceSeed.caret;
+    pendingSelectionRef.current =
+      caret === undefined ? null : { start: caret, end: caret };
+    snippetSessionRef.current = null;
+    setCompletion(null);
     const matchedPreset = (Object.entries(DIAGRAM_PRESETS).find(
-      ([, presetSource]) => presetSource === sourceSeed,
+      ([, presetSource]) => presetSource === sourceSeed.source,
     )?.[0] ?? DEFAULT_PRESET) as DiagramPreset;
     setActivePreset(matchedPreset);
   }, [sourceSeed]);
 
+  // Put the caret where an undo/redo or completion changed the text once it is rendered.
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const editor = sourceTextareaRef.current;
+    const reveal = pendingRevealRef.current;
+    if (reveal && editor) {
+      pendingRevealRef.current = null;
+      revealTextareaRange(editor, reveal);
+    }
+    if (selection === null || !editor) return;
+    pendingSelectionRef.current = null;
+    editor.focus();
+    editor.setSelectionRange(selection.start, selection.end);
+  }, [source]);
+
+  useEffect(() => {
+    completionListRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: "nearest" });
+  }, [completion?.selected]);
+
   useEffect(() => {
     let isCancelled = false;
     void (async () => {
       try {
-        const highlighter = await getGlobalShikiHighlighter();
-        const fencedSource = `\`\`\`mermaid\n${source || " "}\n\`\`\``;
-        const tokenResult = highlighter.codeToTokens(fencedSource, {
-          lang: "mermaid",
-          theme: shikiTheme,
-        });
-        const contentLines = tokenResult.tokens.slice(1, -1);
-        const html = renderShikiTokenLines(
-          contentLines,
-          tokenResult.fg ?? "#fff",
+        const { result: html } = await getRenderClient().run(
+          {
+            kind: "highlight",
+            source,
+            theme: shikiTheme,
+            visibleLines: highlightWindow,
+          },
+          "highlight",
         );
         if (!isCancelled) {
           setSourceHighlightHtml(html);
         }
-      } catch {
-        if (!isCancelled) {
+      } catch (error) {
+        if (!isCancelled && !isRenderCancelled(error)) {
           setSourceHighlightHtml("");
         }
       }
@@ -543,66 +1357,521 @@ const SourceEditorPanel = memo(function SourceEditorPanel({
     return () => {
       isCancelled = true;
     };
-  }, [shikiTheme, source]);
+  }, [highlightWindow, shikiTheme, source]);
+
+  const updateHighlightWindow = useCallback(() => {
+    const editor = sourceTextareaRef.current;
+    const lineContainer = sourceDecorationContentRef.current;
+    if (!editor || !lineContainer) return;
+    const visible = getVisibleLineRange(editor, lineContainer);
+    const start =
+      Math.floor(
+        Math.max(0, visible.start - HIGHLIGHT_OVERSCAN_LINES) /
+          HIGHLIGHT_WINDOW_STEP,
+      ) * HIGHLIGHT_WINDOW_STEP;
+    const end =
+      Math.ceil(
+        (visible.end + HIGHLIGHT_OVERSCAN_LINES) / HIGHLIGHT_WINDOW_STEP,
+      ) * HIGHLIGHT_WINDOW_STEP;
+    setHighlightWindow((current) =>
+      current.start === start && current.end === end ? current : { start, end },
+    );
+  }, []);
+
+  // The line spans measured here are rendered in the same commit as the source.
+  useLayoutEffect(() => {
+    updateHighlightWindow();
+  }, [source, updateHighlightWindow]);
+
+  useEffect(
+    () => () => {
+      if (highlightWindowFrameRef.current !== null) {
+        cancelAnimationFrame(highlightWindowFrameRef.current);
+      }
+    },
+    [],
+  );
 
   const syncSourceHighlightScroll = useCallback(
     (scrollLeft: number, scrollTop: number) => {
-      if (!sourceHighlightContentRef.current) return;
-      sourceHighlightContentRef.current.style.transform = `translate(${-scrollLeft}px, ${-scrollTop}px)`;
+      const transform = `translate(${-scrollLeft}px, ${-scrollTop}px)`;
+      if (sourceHighlightContentRef.current) {
+        sourceHighlightContentRef.current.style.transform = transform;
+      }
+      if (diagnosticContentRef.current) {
+        diagnosticContentRef.current.style.transform = transform;
+      }
+      if (sourceDecorationContentRef.current) {
+        sourceDecorationContentRef.current.style.transform = transform;
+      }
     },
     [],
   );
 
   const handleSourceEditorScroll = useCallback(
     (event: React.UIEvent<HTMLTextAreaElement>) => {
+      setCompletion(null);
+      // Move the layers right away so they never lag the text; measuring
+      // which lines to highlight waits for the next frame.
       syncSourceHighlightScroll(
         event.currentTarget.scrollLeft,
         event.currentTarget.scrollTop,
       );
+      if (highlightWindowFrameRef.current === null) {
+        highlightWindowFrameRef.current = requestAnimationFrame(() => {
+          highlightWindowFrameRef.current = null;
+          updateHighlightWindow();
+        });
+      }
     },
-    [syncSourceHighlightScroll],
+    [syncSourceHighlightScroll, updateHighlightWindow],
   );
 
   useEffect(() => {
     const editor = sourceTextareaRef.current;
     if (!editor) return;
     syncSourceHighlightScroll(editor.scrollLeft, editor.scrollTop);
-  }, [sourceHighlightHtml, syncSourceHighlightScroll]);
+  }, [diagnostics, sourceHighlightHtml, syncSourceHighlightScroll]);
 
   const applySelectedPreset = useCallback(() => {
     const nextSource = DIAGRAM_PRESETS[activePreset];
     setSource(nextSource);
-    onSourceInput(nextSource);
+    onSourceInput(nextSource, { checkpoint: true });
     onSourceCommit(nextSource);
     onApplyPreset(activePreset);
   }, [activePreset, onApplyPreset, onSourceCommit, onSourceInput]);
 
-  const handleSourceChange = useCallback(
-    (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-      const nextSource = event.currentTarget.value;
+  const openCompletions = useCallback((text: string, caret: number) => {
+    const editor = sourceTextareaRef.current;
+    const result = getCompletions(text, caret);
+    if (!editor || !result) {
+      setCompletion(null);
+      return;
+    }
+    const position = getTextareaCaretPosition(editor, result.from);
+    setCompletion({
+      ...result,
+      selected: 0,
+      top: position.top + position.height,
+      left: Math.max(
+        0,
+        Math.min(position.left, editor.clientWidth - COMPLETION_POPUP_WIDTH),
+      ),
+    });
+  }, []);
+
+  /** Replace the completed word with `item`, selecting its first tab stop. */
+  const acceptCompletion = useCallback(
+    (item: CompletionItem) => {
+      if (!completion) return;
+      const lineStart = source.lastIndexOf("\n", completion.from - 1) + 1;
+      const indent = /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? "";
+      const { text, stops } = expandSnippet(item.insertText, indent);
+      const nextSource =
+        source.slice(0, completion.from) + text + source.slice(completion.to);
+      const placed = stops.map((stop) => ({
+        start: stop.start + completion.from,
+        end: stop.end + completion.from,
+      }));
+      snippetSessionRef.current =
+        placed.length > 1 ? { stops: placed, index: 0 } : null;
+      pendingSelectionRef.current = placed[0] ?? null;
+      setCompletion(null);
       setSource(nextSource);
-      onSourceInput(nextSource);
+      onSourceInput(nextSource, { checkpoint: true });
     },
-    [onSourceInput],
+    [completion, onSourceInput, source],
   );
 
-  const lineCount = source.split("\n").length;
+  const applyEdit = useCallback(
+    (edit: TextEdit, options?: { checkpoint?: boolean }) => {
+      setCompletion(null);
+      if (edit.source === source) {
+        sourceTextareaRef.current?.setSelectionRange(
+          edit.selection.start,
+          edit.selection.end,
+        );
+        return;
+      }
+      if (snippetSessionRef.current) {
+        snippetSessionRef.current = mapSnippetSession(
+          snippetSessionRef.current,
+          source,
+          edit.source,
+        );
+      }
+      pendingSelectionRef.current = edit.selection;
+      setSource(edit.source);
+      onSourceInput(edit.source, options);
+    },
+    [onSourceInput, source],
+  );
+
+  const searchResult = useMemo(
+    () => (search ? findMatches(source, search.query, search) : null),
+    [search, source],
+  );
+  const searchMatches = searchResult?.matches ?? [];
+  const currentMatchIndex = Math.min(
+    activeMatchIndex,
+    Math.max(0, searchMatches.length - 1),
+  );
+
+  const handleSearchChange = useCallback(
+    (next: SourceSearch) => {
+      setSearch(next);
+      const editor = sourceTextareaRef.current;
+      if (!editor) return;
+      // A new query starts from the first match after where the search opened.
+      const { matches } = findMatches(source, next.query, next);
+      const index = Math.max(
+        0,
+        matches.findIndex((match) => match.start >= searchAnchorRef.current),
+      );
+      setActiveMatchIndex(index);
+      const match = matches[index];
+      if (match) revealTextareaRange(editor, match);
+    },
+    [source],
+  );
+
+  const openSearch = useCallback(
+    (showReplace: boolean) => {
+      const editor = sourceTextareaRef.current;
+      const selected = editor
+        ? source.slice(editor.selectionStart, editor.selectionEnd)
+        : "";
+      searchAnchorRef.current = editor?.selectionStart ?? 0;
+      const current = search ?? DEFAULT_SOURCE_SEARCH;
+      handleSearchChange({
+        ...current,
+        query: selected && !selected.includes("\n") ? selected : current.query,
+        showReplace: showReplace || current.showReplace,
+      });
+      setSearchFocusRequest((request) => request + 1);
+    },
+    [handleSearchChange, search, source],
+  );
+
+  const closeSearch = useCallback(() => {
+    setSearch(null);
+    const editor = sourceTextareaRef.current;
+    const match = searchMatches[currentMatchIndex];
+    if (!editor) return;
+    editor.focus();
+    if (match) editor.setSelectionRange(match.start, match.end);
+  }, [currentMatchIndex, searchMatches]);
+
+  const stepSearchMatch = useCallback(
+    (step: 1 | -1) => {
+      const editor = sourceTextareaRef.current;
+      if (!editor || searchMatches.length === 0) return;
+      const index =
+        (currentMatchIndex + step + searchMatches.length) %
+        searchMatches.length;
+      setActiveMatchIndex(index);
+      revealTextareaRange(editor, searchMatches[index]!);
+    },
+    [currentMatchIndex, searchMatches],
+  );
+
+  const handleReplaceMatch = useCallback(() => {
+    const match = searchMatches[currentMatchIndex];
+    if (!search || !match) return;
+    const result = replaceMatch(
+      source,
+      match,
+      search.query,
+      search.replacement,
+      search,
+    );
+    if (!result) return;
+    // Move on to the first match after the replaced text.
+    const { matches } = findMatches(result.source, search.query, search);
+    const index = matches.findIndex(
+      (candidate) => candidate.start >= result.inserted.end,
+    );
+    setActiveMatchIndex(index === -1 ? 0 : index);
+    pendingRevealRef.current = matches[index === -1 ? 0 : index] ?? null;
+    snippetSessionRef.current = null;
+    setSource(result.source);
+    onSourceInput(result.source, { checkpoint: true });
+  }, [currentMatchIndex, onSourceInput, search, searchMatches, source]);
+
+  const handleReplaceAllMatches = useCallback(() => {
+    if (!search) return;
+    const result = replaceAllMatches(
+      source,
+      search.query,
+      search.replacement,
+      search,
+    );
+    if (result.count === 0) return;
+    setActiveMatchIndex(0);
+    snippetSessionRef.current = null;
+    setSource(result.source);
+    onSourceInput(result.source, { checkpoint: true });
+  }, [onSourceInput, search, source]);
+
+  const handleSourceChange = useCallback(
+    (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const editor = event.currentTarget;
+      const nextSource = editor.value;
+      if (snippetSessionRef.current) {
+        snippetSessionRef.current = mapSnippetSession(
+          snippetSessionRef.current,
+          source,
+          nextSource,
+        );
+      }
+      setSource(nextSource);
+      onSourceInput(nextSource);
+
+      // Suggest while typing, but not for indentation or pasted text.
+      const caret = editor.selectionStart;
+      const typed =
+        nextSource.length === source.length + 1
+          ? nextSource[caret - 1]
+          : undefined;
+      const lineBefore = nextSource.slice(
+        nextSource.lastIndexOf("\n", caret - 1) + 1,
+        caret,
+      );
+      if (
+        typed &&
+        COMPLETION_TRIGGER_PATTERN.test(typed) &&
+        (typed !== " " || lineBefore.trim())
+      ) {
+        openCompletions(nextSource, caret);
+      } else {
+        setCompletion(null);
+      }
+    },
+    [onSourceInput, openCompletions, source],
+  );
+
+  const handleSourceKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (event.nativeEvent.isComposing) return;
+      const editor = event.currentTarget;
+      const selection = {
+        start: editor.selectionStart,
+        end: editor.selectionEnd,
+      };
+      if (completion) {
+        const count = completion.items.length;
+        if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+          event.preventDefault();
+          const step = event.key === "ArrowDown" ? 1 : -1;
+          setCompletion({
+            ...completion,
+            selected: (completion.selected + step + count) % count,
+          });
+          return;
+        }
+        if (event.key === "Enter" || event.key === "Tab") {
+          event.preventDefault();
+          const item = completion.items[completion.selected];
+          if (item) acceptCompletion(item);
+          return;
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
+          setCompletion(null);
+          return;
+        }
+        if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(event.key)) {
+          setCompletion(null);
+        }
+      }
+
+      if (event.key === " " && event.ctrlKey && !event.altKey) {
+        event.preventDefault();
+        openCompletions(source, editor.selectionStart);
+        return;
+      }
+
+      // Tab and Shift+Tab walk the tab stops of the last inserted snippet.
+      const session = snippetSessionRef.current;
+      if (session && event.key === "Tab" && !event.ctrlKey && !event.altKey) {
+        event.preventDefault();
+        const index = Math.max(0, session.index + (event.shiftKey ? -1 : 1));
+        const stop = session.stops[index];
+        if (!stop) {
+          snippetSessionRef.current = null;
+          return;
+        }
+        editor.setSelectionRange(stop.start, stop.end);
+        snippetSessionRef.current =
+          index === session.stops.length - 1 ? null : { ...session, index };
+        return;
+      }
+      if (session && event.key === "Escape") snippetSessionRef.current = null;
+
+      const hasModifier = event.metaKey || event.ctrlKey || event.altKey;
+      if (event.key === "Tab" && !hasModifier) {
+        event.preventDefault();
+        applyEdit(indentSelection(source, selection, event.shiftKey), {
+          checkpoint: true,
+        });
+        return;
+      }
+      if (!hasModifier) {
+        const edit =
+          event.key === "Backspace"
+            ? deletePair(source, selection)
+            : event.key.length === 1
+              ? insertPairedCharacter(source, selection, event.key)
+              : null;
+        if (edit) {
+          event.preventDefault();
+          applyEdit(edit);
+        }
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      // Cmd+H hides the app on macOS, so replace also answers to Cmd/Ctrl+Alt+F.
+      if (
+        (event.ctrlKey && !event.metaKey && !event.altKey && key === "h") ||
+        ((event.metaKey || event.ctrlKey) &&
+          event.altKey &&
+          event.code === "KeyF")
+      ) {
+        event.preventDefault();
+        openSearch(true);
+        return;
+      }
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        onUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        onRedo();
+      } else if (key === "/") {
+        event.preventDefault();
+        applyEdit(toggleLineComment(source, selection), { checkpoint: true });
+      } else if (key === "f" && !event.shiftKey) {
+        event.preventDefault();
+        openSearch(false);
+      }
+    },
+    [
+      acceptCompletion,
+      applyEdit,
+      completion,
+      onRedo,
+      onUndo,
+      openCompletions,
+      openSearch,
+      source,
+    ],
+  );
+
+  const bracketPair = useMemo(
+    () => (caret === null ? null : findMatchingBracket(source, caret)),
+    [caret, source],
+  );
+
+  const decorationHtml = useMemo(() => {
+    const decorations: EditorDecoration[] = searchMatches.map(
+      (match, index) => ({
+        ...match,
+        className:
+          index === currentMatchIndex
+            ? "editor-search-match editor-search-match-current"
+            : "editor-search-match",
+      }),
+    );
+    // Brackets inside a highlighted match are already visible enough.
+    for (const offset of bracketPair ?? []) {
+      if (
+        !decorations.some(
+          (decoration) => offset >= decoration.start && offset < decoration.end,
+        )
+      ) {
+        decorations.push({
+          start: offset,
+          end: offset + 1,
+          className: "editor-bracket-match",
+        });
+      }
+    }
+    decorations.sort((a, b) => a.start - b.start);
+    return renderEditorDecorations(source, decorations);
+  }, [bracketPair, currentMatchIndex, searchMatches, source]);
+
+  const diagnosticHtml = useMemo(
+    () =>
+      diagnostics.length > 0 ? renderDiagnosticLines(source, diagnostics) : "",
+    [diagnostics, source],
+  );
+
+  const jumpToDiagnostic = useCallback(
+    (diagnostic: Diagnostic) => {
+      const editor = sourceTextareaRef.current;
+      if (!editor) return;
+      const start = getDiagnosticOffset(source, diagnostic);
+      const end = getDiagnosticOffset(source, {
+        line: diagnostic.line,
+        column: diagnostic.endColumn,
+      });
+      editor.focus();
+      editor.setSelectionRange(start, end);
+    },
+    [source],
+  );
+
+  const lineCount = source.split("\n").length;
 
   return (
     <Card
-      className="reveal-up flex flex-col gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      className="reveal-up flex flex-1 flex-col gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
       style={{ animationDelay: "60ms" }}
     >
       <SourceEditorHeader
         activePreset={activePreset}
+        canUndo={canUndo}
+        canRedo={canRedo}
         onPresetChange={setActivePreset}
         onApplyPreset={applySelectedPreset}
+        onUndo={onUndo}
+        onRedo={onRedo}
       />
 
+      {search ? (
+        <SourceSearchBar
+          search={search}
+          matchCount={searchMatches.length}
+          activeIndex={currentMatchIndex}
+          error={searchResult?.error ?? null}
+          focusRequest={searchFocusRequest}
+          onChange={handleSearchChange}
+          onNext={() => stepSearchMatch(1)}
+          onPrevious={() => stepSearchMatch(-1)}
+          onReplace={handleReplaceMatch}
+          onReplaceAll={handleReplaceAllMatches}
+          onClose={closeSearch}
+        />
+      ) : null}
+
       <div className="relative flex flex-1" style={{ minHeight: "50vh" }}>
         <div
           aria-hidden
-          className="pointer-events-none absolute inset-0 overflow-hidden px-4 py-3 font-mono text-[0.82rem] leading-relaxed"
+          className="pointer-events-none absolute inset-0 overflow-hidden py-3 pl-14 pr-4 font-mono text-[0.82rem] leading-relaxed text-transparent"
+        >
+          <pre
+            ref={sourceDecorationContentRef}
+            className="m-0 whitespace-pre-wrap wrap-break-word will-change-transform"
+            style={{ tabSize: 2 }}
+            dangerouslySetInnerHTML={{ __html: decorationHtml }}
+          />
+        </div>
+
+        <div
+          aria-hidden
+          className="pointer-events-none absolute inset-0 overflow-hidden py-3 pl-14 pr-4 font-mono text-[0.82rem] leading-relaxed"
         >
           {sourceHighlightHtml ? (
             <pre
@@ -622,46 +1891,531 @@ const SourceEditorPanel = memo(function SourceEditorPanel({
           )}
         </div>
 
+        {diagnosticHtml ? (
+          <div
+            aria-hidden
+            className="pointer-events-none absolute inset-0 overflow-hidden py-3 pl-14 pr-4 font-mono text-[0.82rem] leading-relaxed text-transparent"
+          >
+            <pre
+              ref={diagnosticContentRef}
+              className="m-0 whitespace-pre-wrap wrap-break-word will-change-transform"
+              style={{ tabSize: 2 }}
+              dangerouslySetInnerHTML={{ __html: diagnosticHtml }}
+            />
+          </div>
+        ) : null}
+
         <textarea
           ref={sourceTextareaRef}
           value={source}
           onChange={handleSourceChange}
+          onKeyDown={handleSourceKeyDown}
           onScroll={handleSourceEditorScroll}
-          onBlur={() => onSourceCommit(source)}
+          onMouseDown={() => setCompletion(null)}
+          onSelect={(event) => {
+            const { selectionStart, selectionEnd } = event.currentTarget;
+            setCaret(selectionStart === selectionEnd ? selectionStart : null);
+            reportLinkedElements({ start: selectionStart, end: selectionEnd });
+          }}
+          onBlur={() => {
+            setCompletion(null);
+            setCaret(null);
+            onSourceCommit(source);
+          }}
           spellCheck={false}
-          className="relative z-10 flex-1 resize-none border-none bg-transparent px-4 py-3 font-mono text-[0.82rem] leading-relaxed text-transparent caret-foreground outline-none selection:bg-primary/30 selection:text-foreground placeholder:text-muted-foreground"
+          className="relative z-10 flex-1 resize-none border-none bg-transparent py-3 pl-14 pr-4 font-mono text-[0.82rem] leading-relaxed text-transparent caret-foreground outline-none selection:bg-primary/30 selection:text-foreground placeholder:text-muted-foreground"
           style={{ minHeight: "50vh", tabSize: 2 }}
           placeholder="Enter Mermaid diagram syntax..."
         />
+
+        {completion ? (
+          <ul
+            ref={completionListRef}
+            role="listbox"
+            aria-label="Suggestions"
+            className="absolute z-20 m-0 max-h-56 list-none overflow-auto rounded-lg border border-border bg-popover p-1 text-xs text-popover-foreground shadow-md"
+            style={{
+              top: completion.top + 2,
+              left: completion.left,
+              width: COMPLETION_POPUP_WIDTH,
+            }}
+          >
+            {completion.items.map((item, index) => (
+              <li key={`${item.kind}:${item.label}`}>
+                <button
+                  type="button"
+                  role="option"
+                  aria-selected={index === completion.selected}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-md px-2 py-1 text-left",
+                    index === completion.selected
+                      ? "bg-accent text-accent-foreground"
+                      : "hover:bg-muted",
+                  )}
+                  // Keep focus (and the selection) in the editor.
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => acceptCompletion(item)}
+                >
+                  <span className="w-14 shrink-0 text-[0.65rem] text-muted-foreground">
+                    {COMPLETION_KIND_LABELS[item.kind]}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate font-mono">
+                    {item.label}
+                  </span>
+                  {item.detail ? (
+                    <span className="shrink-0 truncate text-[0.65rem] text-muted-foreground">
+                      {item.detail}
+                    </span>
+                  ) : null}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
       </div>
 
+      {diagnostics.length > 0 ? (
+        <ul className="m-0 max-h-32 list-none overflow-auto border-t border-border p-1">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.line}:${diagnostic.column}:${index}`}>
+              <button
+                type="button"
+                className={cn(
+                  "flex w-full items-start gap-2 rounded-md px-2.5 py-1 text-left text-xs transition-colors hover:bg-muted",
+                  diagnostic.severity === "error"
+                    ? "text-destructive"
+                    : "text-amber-600 dark:text-amber-400",
+                )}
+                onClick={() => jumpToDiagnostic(diagnostic)}
+                title="Go to location"
+              >
+                {diagnostic.severity === "error" ? (
+                  <CircleAlert className="mt-0.5 size-3.5 shrink-0" />
+                ) : (
+                  <TriangleAlert className="mt-0.5 size-3.5 shrink-0" />
+                )}
+                <span className="shrink-0 font-mono tabular-nums">
+                  {diagnostic.line}:{diagnostic.column}
+                </span>
+                <span className="min-w-0 wrap-break-word">
+                  {diagnostic.message}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
       <div className="flex items-center justify-between gap-2 border-t border-border px-4 py-1.5 text-[0.7rem] text-muted-foreground">
         <span>
           {lineCount} line{lineCount !== 1 ? "s" : ""}
+          {diagnostics.length > 0
+            ? ` · ${diagnostics.length} problem${diagnostics.length !== 1 ? "s" : ""}`
+            : ""}
+        </span>
+        <span>
+          Ctrl+Space for suggestions · flowchart, sequence, state, class, ER
         </span>
-        <span>flowchart, sequence, state, class, ER</span>
       </div>
     </Card>
   );
 });
 
+const RenderCacheDebugPanel = memo(function RenderCacheDebugPanel() {
+  const { cache } = getRenderClient();
+  const stats = useSyncExternalStore(cache.subscribe, cache.getStats);
+  const lookups = stats.hits + stats.misses;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 border-t border-border bg-muted/40 px-4 py-1.5 font-mono text-[0.68rem] text-muted-foreground tabular-nums">
+      <span>
+        cache {stats.size}/{stats.capacity}
+      </span>
+      <span>hits {stats.hits}</span>
+      <span>misses {stats.misses}</span>
+      <span>
+        hit rate{" "}
+        {lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : "–"}
+      </span>
+      <span>evictions {stats.evictions}</span>
+      <button
+        type="button"
+        className="ml-auto rounded px-1.5 transition-colors hover:bg-muted hover:text-foreground"
+        onClick={cache.clear}
+        title="Empty the render cache and reset counters"
+      >
+        clear
+      </button>
+    </div>
+  );
+});
+
+const EXPORT_BACKGROUND_LABELS: Record<ExportBackground, string> = {
+  theme: "Theme",
+  transparent: "Transparent",
+  custom: "Custom",
+};
+
+/** Background and margin options shared by SVG and PNG exports. */
+const ExportFrameBar = memo(function ExportFrameBar({
+  frame,
+  onChange,
+}: {
+  frame: ExportFrame;
+  onChange: (frame: ExportFrame) => void;
+}) {
+  const [colorText, setColorText] = useState(frame.color);
+
+  useEffect(() => {
+    setColorText(frame.color);
+  }, [frame.color]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-border bg-muted/40 px-4 py-2 text-xs">
+      <span className="text-muted-foreground">Background</span>
+      <ButtonGroup>
+        {(Object.keys(EXPORT_BACKGROUND_LABELS) as ExportBackground[]).map(
+          (background) => (
+            <ButtonGroupItem
+              key={background}
+              aria-pressed={frame.background === background}
+              className={cn(
+                frame.background === background &&
+                  "bg-accent text-accent-foreground",
+              )}
+              onClick={() => onChange({ ...frame, background })}
+            >
+              {EXPORT_BACKGROUND_LABELS[background]}
+            </ButtonGroupItem>
+          ),
+        )}
+      </ButtonGroup>
+      {frame.background === "custom" ? (
+        <>
+          <input
+            type="color"
+            value={frame.color}
+            onChange={(event) =>
+              onChange({ ...frame, color: event.currentTarget.value })
+            }
+            className="size-7 shrink-0 cursor-pointer rounded border border-border bg-transparent p-0.5"
+            title="Background color"
+          />
+          <Input
+            value={colorText}
+            aria-invalid={!normalizeHexColor(colorText)}
+            onChange={(event) => {
+              const next = event.currentTarget.value;
+              setColorText(next);
+              const color = normalizeHexColor(next);
+              if (color) onChange({ ...frame, color });
+            }}
+            className="h-7 w-24 font-mono text-xs md:text-xs"
+          />
+        </>
+      ) : null}
+      <div className="mx-0.5 h-4 w-px bg-border" />
+      <label className="flex items-center gap-2">
+        <span className="text-muted-foreground">Margin</span>
+        <Input
+          type="number"
+          min={0}
+          step={4}
+          value={frame.margin}
+          onChange={(event) => {
+            const value = event.currentTarget.valueAsNumber;
+            onChange({
+              ...frame,
+              margin: Number.isFinite(value) && value > 0 ? value : 0,
+            });
+          }}
+          className="h-7 w-20 text-xs md:text-xs"
+        />
+      </label>
+      {frame.background !== "theme" || frame.margin > 0 ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2.5 text-xs"
+          onClick={() =>
+            onChange({ ...DEFAULT_EXPORT_FRAME, color: frame.color })
+          }
+        >
+          Reset
+        </Button>
+      ) : null}
+    </div>
+  );
+});
+
+/** Quality for lossy image exports, and the JPEG fill under transparent areas. */
+const RasterOptionsBar = memo(function RasterOptionsBar({
+  options,
+  onChange,
+}: {
+  options: RasterOptions;
+  onChange: (options: RasterOptions) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-border bg-muted/40 px-4 py-2 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="text-muted-foreground">
+          {RASTER_FORMAT_LABELS[options.format]} quality
+        </span>
+        <input
+          type="range"
+          min={0.5}
+          max={1}
+          step={0.01}
+          value={options.quality}
+          onChange={(event) =>
+            onChange({
+              ...options,
+              quality: event.currentTarget.valueAsNumber,
+            })
+          }
+          className="w-28 accent-primary"
+        />
+        <span className="w-8 font-mono tabular-nums">
+          {Math.round(options.quality * 100)}
+        </span>
+      </label>
+      {options.format === "jpeg" ? (
+        <>
+          <div className="mx-0.5 h-4 w-px bg-border" />
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Fill</span>
+            <input
+              type="color"
+              value={options.fill}
+              onChange={(event) =>
+                onChange({ ...options, fill: event.currentTarget.value })
+              }
+              className="size-7 shrink-0 cursor-pointer rounded border border-border bg-transparent p-0.5"
+              title="Painted where the diagram is transparent"
+            />
+          </label>
+        </>
+      ) : null}
+    </div>
+  );
+});
+
+const DEFAULT_TARGET_PIXELS = 1920;
+
+/**
+ * Image export size: a preset scale, a custom scale, or an exact width or
+ * height in pixels that the scale is derived from.
+ */
+const ImageSizeControl = memo(function ImageSizeControl({
+  size,
+  onChange,
+}: {
+  size: ImageSize;
+  onChange: (size: ImageSize) => void;
+}) {
+  const [isCustomScale, setIsCustomScale] = useState(
+    () =>
+      size.mode === "scale" &&
+      !(PNG_SCALES as readonly number[]).includes(size.scale),
+  );
+  const value =
+    size.mode !== "scale"
+      ? size.mode
+      : isCustomScale
+        ? "custom"
+        : String(size.scale);
+  const amount = size.mode === "scale" ? size.scale : size.pixels;
+  const [amountText, setAmountText] = useState(String(amount));
+
+  useEffect(() => {
+    setAmountText(String(amount));
+  }, [amount]);
+
+  const handleAmountChange = (text: string) => {
+    setAmountText(text);
+    const next = Number.parseFloat(text);
+    if (size.mode === "scale") {
+      if (isImageScale(next)) onChange({ mode: "scale", scale: next });
+    } else if (Number.isInteger(next) && next > 0) {
+      onChange({ mode: size.mode, pixels: next });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Select
+        value={value}
+        onValueChange={(v) => {
+          setIsCustomScale(v === "custom");
+          if (v === "width" || v === "height") {
+            onChange({
+              mode: v,
+              pixels:
+                size.mode === "scale" ? DEFAULT_TARGET_PIXELS : size.pixels,
+            });
+          } else if (v === "custom") {
+            onChange({
+              mode: "scale",
+              scale: size.mode === "scale" ? size.scale : 2,
+            });
+          } else {
+            onChange({ mode: "scale", scale: Number(v) });
+          }
+        }}
+      >
+        <SelectTrigger className="h-7 w-24 text-xs" title="Image export size">
+          <SelectValue placeholder="Scale" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Scale</SelectLabel>
+            {PNG_SCALES.map((s) => (
+              <SelectItem key={s} value={String(s)}>
+                {s}x
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom</SelectItem>
+          </SelectGroup>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Target size</SelectLabel>
+            <SelectItem value="width">Width (px)</SelectItem>
+            <SelectItem value="height">Height (px)</SelectItem>
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      {value === "custom" || size.mode !== "scale" ? (
+        <Input
+          type="number"
+          min={size.mode === "scale" ? MIN_IMAGE_SCALE : 1}
+          max={size.mode === "scale" ? MAX_IMAGE_SCALE : undefined}
+          step={size.mode === "scale" ? 0.5 : 1}
+          value={amountText}
+          aria-invalid={
+            size.mode === "scale"
+              ? !isImageScale(Number.parseFloat(amountText))
+              : !(Number.parseInt(amountText, 10) > 0)
+          }
+          onChange={(event) => handleAmountChange(event.currentTarget.value)}
+          className="h-7 w-20 text-xs md:text-xs"
+          title={
+            size.mode === "scale"
+              ? `Scale factor (${MIN_IMAGE_SCALE}–${MAX_IMAGE_SCALE})`
+              : `Exact ${size.mode} in pixels`
+          }
+        />
+      ) : null}
+    </div>
+  );
+});
+
+/** A node being renamed in place, with its box relative to the preview viewport. */
+type NodeLabelEdit = {
+  id: string;
+  label: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+/** The visual editor's right-click menu; `node` is the node it opened on, if any. */
+type PreviewMenu = { left: number; top: number; node: string | null };
+type ConnectLine = { x1: number; y1: number; x2: number; y2: number };
+
+const NODE_LABEL_INPUT_MIN_WIDTH = 140;
+
+/** The flowchart node `target` belongs to, when it is inside `container`. */
+function getFlowchartNode(
+  target: EventTarget | null,
+  container: Element,
+): SVGGElement | null {
+  if (!(target instanceof Element)) return null;
+  const node = target.closest<SVGGElement>("g.node[data-id]");
+  return node && container.contains(node) ? node : null;
+}
+
+const NodeLabelEditor = memo(function NodeLabelEditor({
+  edit,
+  onCommit,
+  onCancel,
+}: {
+  edit: NodeLabelEdit;
+  onCommit: (label: string) => void;
+  onCancel: () => void;
+}) {
+  // Enter and Escape close the editor, and closing it must not commit again on blur.
+  const isDoneRef = useRef(false);
+  const width = Math.max(edit.width, NODE_LABEL_INPUT_MIN_WIDTH);
+
+  const finish = (label: string | null) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    if (label === null) onCancel();
+    else onCommit(label);
+  };
+
+  return (
+    <Input
+      autoFocus
+      defaultValue={edit.label}
+      aria-label={`Label of ${edit.id}`}
+      className="absolute z-20 h-7 bg-popover text-center text-xs shadow-md"
+      style={{
+        left: edit.left + edit.width / 2 - width / 2,
+        top: edit.top + edit.height / 2 - 14,
+        width,
+      }}
+      onFocus={(event) => event.currentTarget.select()}
+      onBlur={(event) => finish(event.currentTarget.value)}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          finish(event.currentTarget.value);
+        } else if (event.key === "Escape") {
+          event.preventDefault();
+          finish(null);
+        }
+      }}
+    />
+  );
+});
+
 type PreviewPanelProps = {
   renderStyle: RenderStyle;
   onRenderStyleChange: (style: RenderStyle) => void;
   svgMarkup: string;
   asciiMarkup: string;
   renderError: string;
+  /** The output on screen is from an earlier source that still rendered. */
+  isStale: boolean;
+  renderTiming: RenderTiming | null;
   actionMessage: string;
   actionError: boolean;
   isBusy: boolean;
-  exporting: "svg" | "png" | null;
-  pngScale: (typeof PNG_SCALES)[number];
-  onPngScaleChange: (scale: (typeof PNG_SCALES)[number]) => void;
+  exporting: ExportKind | null;
+  imageSize: ImageSize;
+  onImageSizeChange: (size: ImageSize) => void;
+  rasterOptions: RasterOptions;
+  onRasterOptionsChange: (options: RasterOptions) => void;
+  exportFrame: ExportFrame;
+  onExportFrameChange: (frame: ExportFrame) => void;
+  sharedView: Transform | null;
+  onViewChange: (view: Transform) => void;
   onCopySvg: () => void;
   onCopyPng: () => void;
   onCopyAscii: () => void;
+  onCopyHtml: () => void;
   onSvgDownload: () => void;
   onPngDownload: () => void;
+  onPublishSvg: () => void;
+  onPdfExport: () => void;
+  /** Elements to highlight because the editor selection is on their definition. */
+  linkedElements: DiagramElementRef[];
+  onElementClick: (element: DiagramElementRef) => void;
+  /** The diagram on screen is a flowchart, which can be edited in the preview. */
+  canEditVisually: boolean;
+  onVisualEdit: (edit: FlowchartEdit) => void;
 };
 
 const PreviewPanel = memo(function PreviewPanel({
@@ -670,19 +2424,40 @@ const PreviewPanel = memo(function PreviewPanel({
   svgMarkup,
   asciiMarkup,
   renderError,
+  isStale,
+  renderTiming,
   actionMessage,
   actionError,
   isBusy,
   exporting,
-  pngScale,
-  onPngScaleChange,
+  imageSize,
+  onImageSizeChange,
+  rasterOptions,
+  onRasterOptionsChange,
+  exportFrame,
+  onExportFrameChange,
+  sharedView,
+  onViewChange,
   onCopySvg,
   onCopyPng,
   onCopyAscii,
+  onCopyHtml,
   onSvgDownload,
   onPngDownload,
+  onPublishSvg,
+  onPdfExport,
+  linkedElements,
+  onElementClick,
+  canEditVisually,
+  onVisualEdit,
 }: PreviewPanelProps) {
   const [svgSize, setSvgSize] = useState<SvgSize | null>(null);
+  const [showDebug, setShowDebug] = useState(false);
+  const [showExportFrame, setShowExportFrame] = useState(false);
+  const [isVisualEditing, setIsVisualEditing] = useState(false);
+  const [labelEdit, setLabelEdit] = useState<NodeLabelEdit | null>(null);
+  const [menu, setMenu] = useState<PreviewMenu | null>(null);
+  const [connectLine, setConnectLine] = useState<ConnectLine | null>(null);
   const [transform, setTransform] = useState<Transform>({
     x: 0,
     y: 0,
@@ -692,10 +2467,20 @@ const PreviewPanel = memo(function PreviewPanel({
   const viewportRef = useRef<HTMLDivElement | null>(null);
   const transformRef = useRef<Transform>(transform);
   const dragRef = useRef<DragState | null>(null);
+  const pendingViewRef = useRef<Transform | null>(null);
+  const svgContainerRef = useRef<HTMLDivElement | null>(null);
+
+  const isSvgReady = renderStyle === "svg" && !!svgMarkup;
+  const isEditing = isVisualEditing && canEditVisually && isSvgReady;
 
   useEffect(() => {
     transformRef.current = transform;
-  }, [transform]);
+    onViewChange(transform);
+  }, [onViewChange, transform]);
+
+  useEffect(() => {
+    pendingViewRef.current = sharedView;
+  }, [sharedView]);
 
   useEffect(() => {
     if (renderStyle !== "svg" || !svgMarkup) {
@@ -737,6 +2522,13 @@ const PreviewPanel = memo(function PreviewPanel({
     if (renderStyle !== "svg" || !svgSize || typeof window === "undefined")
       return;
     const frame = window.requestAnimationFrame(() => {
+      // A view restored from a share link wins over the automatic fit once.
+      const pendingView = pendingViewRef.current;
+      if (pendingView) {
+        pendingViewRef.current = null;
+        setTransform(pendingView);
+        return;
+      }
       fitToView();
     });
     return () => {
@@ -776,33 +2568,69 @@ const PreviewPanel = memo(function PreviewPanel({
     [applyZoomAroundPoint],
   );
 
+  /** A client point relative to the preview viewport. */
+  const getViewportPoint = useCallback((clientX: number, clientY: number) => {
+    const bounds = viewportRef.current?.getBoundingClientRect();
+    return {
+      x: clientX - (bounds?.left ?? 0),
+      y: clientY - (bounds?.top ?? 0),
+    };
+  }, []);
+
   const handlePointerDown = useCallback(
     (event: React.PointerEvent<HTMLDivElement>) => {
       if (event.button !== 0) return;
       event.preventDefault();
       event.currentTarget.setPointerCapture(event.pointerId);
+      const container = svgContainerRef.current;
+      const node =
+        isEditing && container
+          ? getFlowchartNode(event.target, container)
+          : null;
+      const nodeBounds = node?.getBoundingClientRect();
+      const origin =
+        nodeBounds &&
+        getViewportPoint(
+          nodeBounds.left + nodeBounds.width / 2,
+          nodeBounds.top + nodeBounds.height / 2,
+        );
       dragRef.current = {
         pointerId: event.pointerId,
+        target: event.target,
+        connect:
+          node?.dataset.id && origin
+            ? { from: node.dataset.id, ...origin }
+            : undefined,
         startClientX: event.clientX,
         startClientY: event.clientY,
         startX: transformRef.current.x,
         startY: transformRef.current.y,
       };
     },
-    [],
+    [getViewportPoint, isEditing],
   );
 
   const handlePointerMove = useCallback(
     (event: React.PointerEvent<HTMLDivElement>) => {
       const drag = dragRef.current;
       if (!drag || drag.pointerId !== event.pointerId) return;
+      if (drag.connect) {
+        const { x, y } = getViewportPoint(event.clientX, event.clientY);
+        setConnectLine({
+          x1: drag.connect.x,
+          y1: drag.connect.y,
+          x2: x,
+          y2: y,
+        });
+        return;
+      }
       setTransform((cur) => ({
         ...cur,
         x: drag.startX + event.clientX - drag.startClientX,
         y: drag.startY + event.clientY - drag.startClientY,
       }));
     },
-    [],
+    [getViewportPoint],
   );
 
   const handlePointerUp = useCallback(
@@ -813,21 +2641,154 @@ const PreviewPanel = memo(function PreviewPanel({
         event.currentTarget.releasePointerCapture(event.pointerId);
       }
       dragRef.current = null;
+      setConnectLine(null);
+      const container = svgContainerRef.current;
+      if (
+        event.type !== "pointerup" ||
+        !container ||
+        !(drag.target instanceof Element)
+      )
+        return;
+      const isClick =
+        Math.hypot(
+          event.clientX - drag.startClientX,
+          event.clientY - drag.startClientY,
+        ) <= CLICK_MOVE_TOLERANCE;
+      if (drag.connect && !isClick) {
+        // The pointer is captured, so find the node under it by position.
+        const to = getFlowchartNode(
+          document.elementFromPoint(event.clientX, event.clientY),
+          container,
+        )?.dataset.id;
+        if (to && to !== drag.connect.from) {
+          onVisualEdit({ kind: "connect", from: drag.connect.from, to });
+        }
+        return;
+      }
+      if (!isClick) return;
+      const element = getDiagramElementRef(drag.target, container);
+      if (element) onElementClick(element);
     },
-    [],
+    [onElementClick, onVisualEdit],
   );
 
-  const isSvgReady = renderStyle === "svg" && !!svgMarkup;
+  const openLabelEdit = useCallback(
+    (node: SVGGElement) => {
+      const id = node.dataset.id;
+      if (!id) return;
+      const bounds = node.getBoundingClientRect();
+      const { x, y } = getViewportPoint(bounds.left, bounds.top);
+      setMenu(null);
+      setLabelEdit({
+        id,
+        label: (node.dataset.label ?? id).replaceAll("\n", "<br>"),
+        left: x,
+        top: y,
+        width: bounds.width,
+        height: bounds.height,
+      });
+    },
+    [getViewportPoint],
+  );
+
+  const handleDoubleClick = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const container = svgContainerRef.current;
+      if (!isEditing || !container) return;
+      const node = getFlowchartNode(event.target, container);
+      if (node) openLabelEdit(node);
+    },
+    [isEditing, openLabelEdit],
+  );
+
+  const handleContextMenu = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const container = svgContainerRef.current;
+      if (!isEditing || !container) return;
+      event.preventDefault();
+      const { x, y } = getViewportPoint(event.clientX, event.clientY);
+      setLabelEdit(null);
+      setMenu({
+        left: x,
+        top: y,
+        node: getFlowchartNode(event.target, container)?.dataset.id ?? null,
+      });
+    },
+    [getViewportPoint, isEditing],
+  );
+
+  const runMenuEdit = useCallback(
+    (edit: FlowchartEdit) => {
+      setMenu(null);
+      onVisualEdit(edit);
+    },
+    [onVisualEdit],
+  );
+
+  const renameMenuNode = useCallback(
+    (id: string) => {
+      const node = svgContainerRef.current?.querySelector<SVGGElement>(
+        `g.node[data-id="${CSS.escape(id)}"]`,
+      );
+      if (node) openLabelEdit(node);
+    },
+    [openLabelEdit],
+  );
+
+  const commitLabelEdit = useCallback(
+    (label: string) => {
+      const edit = labelEdit;
+      setLabelEdit(null);
+      if (!edit || label === edit.label) return;
+      onVisualEdit({ kind: "rename", id: edit.id, label });
+    },
+    [labelEdit, onVisualEdit],
+  );
+
+  // A new render or leaving edit mode leaves nothing to point at.
+  useEffect(() => {
+    setLabelEdit(null);
+    setMenu(null);
+  }, [isEditing, svgMarkup]);
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") close();
+    };
+    window.addEventListener("pointerdown", close);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("pointerdown", close);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [menu]);
+
+  useEffect(() => {
+    const container = svgContainerRef.current;
+    if (!container || !isSvgReady) return;
+    const highlighted = linkedElements.flatMap((element) =>
+      findDiagramElements(container, element),
+    );
+    for (const element of highlighted) element.classList.add("diagram-linked");
+    return () => {
+      for (const element of highlighted) {
+        element.classList.remove("diagram-linked");
+      }
+    };
+  }, [isSvgReady, linkedElements, svgMarkup]);
 
   return (
     <Card
-      className="reveal-up flex flex-col gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      className="reveal-up flex flex-1 flex-col gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
       style={{ animationDelay: "120ms" }}
     >
       <PanelHeader>
         <div className="flex items-center gap-2">
           <PanelTab icon={Eye} label="Preview" />
           {renderStyle !== "svg" ? <Badge>text mode</Badge> : null}
+          {isStale ? <Badge dot>stale</Badge> : null}
         </div>
       </PanelHeader>
 
@@ -873,6 +2834,13 @@ const PreviewPanel = memo(function PreviewPanel({
           >
             <ClipboardCopy className="size-3" /> ASCII
           </ButtonGroupItem>
+          <ButtonGroupItem
+            onClick={onCopyHtml}
+            disabled={isBusy}
+            title="Copy a styled HTML <figure> of the current view"
+          >
+            <Code className="size-3" /> HTML
+          </ButtonGroupItem>
         </ButtonGroup>
 
         <ButtonGroup>
@@ -882,43 +2850,99 @@ const PreviewPanel = memo(function PreviewPanel({
           </ButtonGroupItem>
           <ButtonGroupItem onClick={onPngDownload} disabled={isBusy}>
             <Download className="size-3" />{" "}
-            {exporting === "png" ? "..." : "PNG"}
+            {exporting === "image"
+              ? "..."
+              : RASTER_FORMAT_LABELS[rasterOptions.format]}
+          </ButtonGroupItem>
+          <ButtonGroupItem
+            onClick={onPdfExport}
+            disabled={isBusy}
+            title="Vector PDF with page options"
+          >
+            <FileText className="size-3" /> PDF
+          </ButtonGroupItem>
+          <ButtonGroupItem
+            onClick={onPublishSvg}
+            disabled={isBusy}
+            title="SVG for publishing: embedded fonts, literal colors, optional minify"
+          >
+            <Globe className="size-3" />{" "}
+            {exporting === "publish" ? "..." : "Publish"}
           </ButtonGroupItem>
         </ButtonGroup>
 
         <Select
-          value={String(pngScale)}
+          value={rasterOptions.format}
           onValueChange={(v) =>
-            onPngScaleChange(Number(v) as (typeof PNG_SCALES)[number])
+            onRasterOptionsChange({
+              ...rasterOptions,
+              format: v as RasterFormat,
+            })
           }
         >
-          <SelectTrigger className="h-7 w-17 text-xs">
-            <SelectValue placeholder="Scale" />
+          <SelectTrigger className="h-7 w-20 text-xs">
+            <SelectValue placeholder="Format" />
           </SelectTrigger>
           <SelectContent>
-            {PNG_SCALES.map((s) => (
-              <SelectItem key={s} value={String(s)}>
-                {s}x
+            {RASTER_FORMATS.map((format) => (
+              <SelectItem key={format} value={format}>
+                {RASTER_FORMAT_LABELS[format]}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
 
-        {isSvgReady ? (
-          <>
-            <div className="mx-0.5 h-4 w-px bg-border" />
-            <Button
-              variant="ghost"
+        <ImageSizeControl size={imageSize} onChange={onImageSizeChange} />
+
+        <Button
+          variant={showExportFrame ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 gap-1.5 px-2.5 text-xs"
+          onClick={() => setShowExportFrame((current) => !current)}
+          title="Export background and margin"
+        >
+          <Frame className="size-3" />
+          {exportFrame.background !== "theme" || exportFrame.margin > 0
+            ? "Framed"
+            : "Frame"}
+        </Button>
+
+        {isSvgReady ? (
+          <>
+            <div className="mx-0.5 h-4 w-px bg-border" />
+            <Button
+              variant="ghost"
               size="sm"
               className="h-7 gap-1.5 px-2.5 text-xs"
               onClick={fitToView}
             >
               <ScanSearch className="size-3" /> Fit
             </Button>
+            {canEditVisually ? (
+              <Button
+                variant={isVisualEditing ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 gap-1.5 px-2.5 text-xs"
+                onClick={() => setIsVisualEditing((current) => !current)}
+                title="Double-click a node to rename it, drag from one node to another to connect them, right-click to add or delete nodes"
+              >
+                <Pencil className="size-3" /> Edit
+              </Button>
+            ) : null}
           </>
         ) : null}
       </div>
 
+      {showExportFrame ? (
+        <ExportFrameBar frame={exportFrame} onChange={onExportFrameChange} />
+      ) : null}
+      {rasterOptions.format !== "png" ? (
+        <RasterOptionsBar
+          options={rasterOptions}
+          onChange={onRasterOptionsChange}
+        />
+      ) : null}
+
       <div className="relative flex-1">
         <div
           ref={viewportRef}
@@ -927,6 +2951,7 @@ const PreviewPanel = memo(function PreviewPanel({
             isSvgReady
               ? "overflow-hidden cursor-grab active:cursor-grabbing"
               : "overflow-auto cursor-default",
+            isEditing && "diagram-editing",
           )}
           style={{ minHeight: "50vh" }}
           onWheel={isSvgReady ? handleWheelZoom : undefined}
@@ -934,15 +2959,21 @@ const PreviewPanel = memo(function PreviewPanel({
           onPointerMove={isSvgReady ? handlePointerMove : undefined}
           onPointerUp={isSvgReady ? handlePointerUp : undefined}
           onPointerCancel={isSvgReady ? handlePointerUp : undefined}
+          onDoubleClick={isEditing ? handleDoubleClick : undefined}
+          onContextMenu={isEditing ? handleContextMenu : undefined}
         >
           {isSvgReady ? (
             <div
-              className="diagram-stage"
+              className={cn(
+                "diagram-stage transition-opacity",
+                isStale && "opacity-40 grayscale",
+              )}
               style={{
                 transform: `translate3d(${transform.x}px, ${transform.y}px, 0) scale(${transform.scale})`,
               }}
             >
               <div
+                ref={svgContainerRef}
                 className="diagram-svg"
                 dangerouslySetInnerHTML={{ __html: svgMarkup }}
               />
@@ -951,13 +2982,21 @@ const PreviewPanel = memo(function PreviewPanel({
 
           {renderStyle !== "svg" && asciiMarkup ? (
             <pre
-              className="m-0 h-full min-h-[50vh] whitespace-pre p-5 font-mono text-[0.82rem] leading-snug"
+              className={cn(
+                "m-0 h-full min-h-[50vh] whitespace-pre p-5 font-mono text-[0.82rem] leading-snug transition-opacity",
+                isStale && "opacity-40 grayscale",
+              )}
               dangerouslySetInnerHTML={{ __html: asciiMarkup }}
             />
           ) : null}
 
           {renderError ? (
             <p className="absolute inset-x-3 bottom-3 m-0 rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm leading-snug text-destructive backdrop-blur-xl">
+              {isStale ? (
+                <span className="mb-0.5 block text-xs font-medium opacity-80">
+                  Showing the last successful render
+                </span>
+              ) : null}
               {renderError}
             </p>
           ) : null}
@@ -1016,11 +3055,923 @@ const PreviewPanel = memo(function PreviewPanel({
             </div>
           ) : null}
         </div>
+
+        {connectLine ? (
+          <svg
+            className="pointer-events-none absolute inset-0 size-full"
+            aria-hidden="true"
+          >
+            <line
+              {...connectLine}
+              className="stroke-primary"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          </svg>
+        ) : null}
+
+        {labelEdit ? (
+          <NodeLabelEditor
+            key={labelEdit.id}
+            edit={labelEdit}
+            onCommit={commitLabelEdit}
+            onCancel={() => setLabelEdit(null)}
+          />
+        ) : null}
+
+        {menu ? (
+          <ul
+            role="menu"
+            aria-label={menu.node ? `Node ${menu.node}` : "Diagram"}
+            className="absolute z-20 m-0 w-48 list-none rounded-lg border border-border bg-popover p-1 text-xs text-popover-foreground shadow-md"
+            style={{ left: menu.left, top: menu.top }}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            {(menu.node
+              ? [
+                  {
+                    label: "Rename",
+                    icon: Pencil,
+                    run: () => renameMenuNode(menu.node!),
+                  },
+                  {
+                    label: "Add connected node",
+                    icon: Plus,
+                    run: () =>
+                      runMenuEdit({ kind: "add-node", from: menu.node! }),
+                  },
+                  {
+                    label: "Delete node",
+                    icon: Trash2,
+                    run: () =>
+                      runMenuEdit({ kind: "remove-node", id: menu.node! }),
+                  },
+                ]
+              : [
+                  {
+                    label: "Add node",
+                    icon: Plus,
+                    run: () => runMenuEdit({ kind: "add-node" }),
+                  },
+                ]
+            ).map(({ label, icon: Icon, run }) => (
+              <li key={label}>
+                <button
+                  type="button"
+                  role="menuitem"
+                  className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left hover:bg-muted"
+                  onClick={run}
+                >
+                  <Icon className="size-3 opacity-60" />
+                  {label}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-border px-4 py-1.5 text-[0.7rem] text-muted-foreground">
+        <span className="tabular-nums">
+          {!renderTiming
+            ? "Waiting for first render"
+            : renderTiming.cached
+              ? "Served from render cache"
+              : `Rendered in ${formatDuration(renderTiming.workMs)} · ${formatDuration(renderTiming.totalMs)} round trip`}
+        </span>
+        <div className="flex items-center gap-2">
+          <span>{isStale ? "last good render" : renderStyle}</span>
+          <button
+            type="button"
+            className={cn(
+              "flex size-5 items-center justify-center rounded transition-colors hover:bg-muted hover:text-foreground",
+              showDebug && "bg-muted text-foreground",
+            )}
+            onClick={() => setShowDebug((current) => !current)}
+            title={
+              showDebug ? "Hide render debug info" : "Show render debug info"
+            }
+          >
+            <Bug className="size-3" />
+          </button>
+        </div>
+      </div>
+
+      {showDebug ? <RenderCacheDebugPanel /> : null}
+    </Card>
+  );
+});
+
+const THEME_COLOR_LABELS: Record<ThemeColorKey, string> = {
+  bg: "Background",
+  fg: "Text",
+  line: "Lines",
+  accent: "Arrows",
+  muted: "Labels",
+  surface: "Node fill",
+  border: "Node border",
+};
+
+const ThemeColorField = memo(function ThemeColorField({
+  colorKey,
+  colors,
+  onChange,
+}: {
+  colorKey: ThemeColorKey;
+  colors: DiagramColors;
+  onChange: (key: ThemeColorKey, value: string | undefined) => void;
+}) {
+  const explicit = colors[colorKey];
+  const resolved =
+    normalizeHexColor(getThemeColor(colors, colorKey)) ?? "#000000";
+  const [text, setText] = useState(explicit ?? "");
+
+  useEffect(() => {
+    setText(explicit ?? "");
+  }, [explicit]);
+
+  const isOptional = colorKey !== "bg" && colorKey !== "fg";
+
+  return (
+    <label className="flex items-center gap-2 text-xs">
+      <input
+        type="color"
+        value={resolved}
+        onChange={(event) => onChange(colorKey, event.currentTarget.value)}
+        className="size-7 shrink-0 cursor-pointer rounded border border-border bg-transparent p-0.5"
+      />
+      <span className="w-20 shrink-0 text-muted-foreground">
+        {THEME_COLOR_LABELS[colorKey]}
+      </span>
+      <Input
+        value={text}
+        placeholder={isOptional ? `auto (${resolved})` : resolved}
+        aria-invalid={text !== "" && !normalizeHexColor(text)}
+        onChange={(event) => {
+          const next = event.currentTarget.value;
+          setText(next);
+          if (normalizeHexColor(next)) onChange(colorKey, next);
+          else if (next === "" && isOptional) onChange(colorKey, undefined);
+        }}
+        className="h-7 min-w-0 font-mono text-xs md:text-xs"
+      />
+    </label>
+  );
+});
+
+type ThemeEditorPanelProps = {
+  theme: CustomTheme;
+  isSaved: boolean;
+  availableThemes: ThemeName[];
+  onChange: (theme: CustomTheme) => void;
+  onSave: () => void;
+  onClose: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const ThemeEditorPanel = memo(function ThemeEditorPanel({
+  theme,
+  isSaved,
+  availableThemes,
+  onChange,
+  onSave,
+  onClose,
+  onDelete,
+  onExport,
+  onImport,
+}: ThemeEditorPanelProps) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const asciiPalette = useMemo(
+    () => getAsciiTheme(theme.colors),
+    [theme.colors],
+  );
+
+  const handleColorChange = useCallback(
+    (key: ThemeColorKey, value: string | undefined) => {
+      const colors = { ...theme.colors };
+      if (value === undefined) delete colors[key];
+      else colors[key] = value;
+      onChange({ ...theme, colors });
+    },
+    [onChange, theme],
+  );
+
+  return (
+    <Card
+      className="reveal-up gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      style={{ animationDelay: "60ms" }}
+    >
+      <PanelHeader>
+        <PanelTab icon={Palette} label="Theme editor" />
+        <button
+          type="button"
+          className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          onClick={onClose}
+          title="Close without saving"
+        >
+          <X className="size-3.5" />
+        </button>
+      </PanelHeader>
+
+      <div className="grid gap-3 px-4 py-3 sm:grid-cols-2">
+        <label className="flex items-center gap-2 text-xs">
+          <span className="w-20 shrink-0 text-muted-foreground">Name</span>
+          <Input
+            value={theme.name}
+            onChange={(event) =>
+              onChange({ ...theme, name: event.currentTarget.value })
+            }
+            className="h-7 text-xs md:text-xs"
+          />
+        </label>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="w-20 shrink-0 text-muted-foreground">
+            Start from
+          </span>
+          <Select
+            value={theme.base}
+            onValueChange={(base) =>
+              onChange({
+                ...theme,
+                base,
+                colors: { ...resolveThemeColors(base) },
+              })
+            }
+          >
+            <SelectTrigger className="h-7 w-full text-xs">
+              <SelectValue placeholder="Base theme" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableThemes.map((t) => (
+                <SelectItem key={t} value={t}>
+                  {t}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {THEME_COLOR_KEYS.map((key) => (
+          <ThemeColorField
+            key={key}
+            colorKey={key}
+            colors={theme.colors}
+            onChange={handleColorChange}
+          />
+        ))}
+
+        <div className="flex items-center gap-2 text-xs sm:col-span-2">
+          <span className="w-20 shrink-0 text-muted-foreground">
+            ASCII palette
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {Object.entries(asciiPalette).map(([name, color]) => (
+              <span
+                key={name}
+                className="inline-flex items-center gap-1 rounded-full border border-border px-2 py-0.5 font-mono text-[0.68rem]"
+                title={color}
+              >
+                <span
+                  className="size-2.5 rounded-full border border-border"
+                  style={{ background: color }}
+                />
+                {name}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 border-t border-border px-4 py-2">
+        <ButtonGroup>
+          <ButtonGroupItem
+            onClick={() => importInputRef.current?.click()}
+            title="Import themes from a JSON file"
+          >
+            <FileUp className="size-3" /> Import
+          </ButtonGroupItem>
+          <ButtonGroupItem
+            onClick={onExport}
+            title="Download this theme as JSON"
+          >
+            <FileDown className="size-3" /> Export
+          </ButtonGroupItem>
+        </ButtonGroup>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.currentTarget.files?.[0];
+            event.currentTarget.value = "";
+            if (file) onImport(file);
+          }}
+        />
+        <div className="flex items-center gap-2">
+          {isSaved ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2.5 text-xs text-destructive hover:text-destructive"
+              onClick={onDelete}
+            >
+              Delete
+            </Button>
+          ) : null}
+          <Button
+            size="sm"
+            className="h-7 px-2.5 text-xs"
+            onClick={onSave}
+            disabled={!theme.name.trim()}
+          >
+            Save theme
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+});
+
+const MAX_EMBEDDED_FONT_BYTES = 2 * 1024 * 1024;
+const FONT_MIME_BY_EXTENSION: Record<string, string> = {
+  woff2: "font/woff2",
+  woff: "font/woff",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+const COMPACT_LAYOUT = {
+  padding: 12,
+  nodeSpacing: 16,
+  layerSpacing: 24,
+  componentSpacing: 16,
+} as const satisfies RenderLayout;
+const LAYOUT_NUMBER_FIELDS = [
+  { key: "padding", label: "Padding", fallback: DEFAULT_RENDER_PADDING },
+  { key: "nodeSpacing", label: "Node gap", fallback: DEFAULT_NODE_SPACING },
+  { key: "layerSpacing", label: "Layer gap", fallback: DEFAULT_LAYER_SPACING },
+  {
+    key: "componentSpacing",
+    label: "Group gap",
+    fallback: DEFAULT_NODE_SPACING,
+  },
+] as const;
+/** Spacing of the ASCII and Unicode renders, in characters. */
+const ASCII_LAYOUT_NUMBER_FIELDS = [
+  {
+    key: "asciiPaddingX",
+    label: "Column gap",
+    fallback: DEFAULT_ASCII_PADDING,
+  },
+  { key: "asciiPaddingY", label: "Row gap", fallback: DEFAULT_ASCII_PADDING },
+  {
+    key: "asciiBoxPadding",
+    label: "Box padding",
+    fallback: DEFAULT_ASCII_BOX_PADDING,
+  },
+] as const;
+type LayoutNumberField =
+  | (typeof LAYOUT_NUMBER_FIELDS)[number]
+  | (typeof ASCII_LAYOUT_NUMBER_FIELDS)[number];
+
+function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Could not read file."));
+    reader.readAsDataURL(file);
+  });
+}
+
+async function readEmbeddedFont(file: File): Promise<EmbeddedFont> {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const mime = FONT_MIME_BY_EXTENSION[extension];
+  if (!mime) throw new Error("Use a .woff2, .woff, .ttf or .otf font file.");
+  if (file.size > MAX_EMBEDDED_FONT_BYTES) {
+    throw new Error("Font files larger than 2 MB cannot be embedded.");
+  }
+  const family = file.name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+  return {
+    family: family || "Embedded font",
+    dataUrl: await readFileAsDataUrl(new Blob([file], { type: mime })),
+  };
+}
+
+type RenderSettingsPanelProps = {
+  layout: RenderLayout | undefined;
+  onChange: (layout: RenderLayout | undefined) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+};
+
+const RenderSettingsPanel = memo(function RenderSettingsPanel({
+  layout = {},
+  onChange,
+  onClose,
+  onError,
+}: RenderSettingsPanelProps) {
+  const fontInputRef = useRef<HTMLInputElement | null>(null);
+
+  const update = useCallback(
+    (patch: Partial<RenderLayout>) => {
+      const next: RenderLayout = { ...layout, ...patch };
+      for (const key of Object.keys(next) as (keyof RenderLayout)[]) {
+        if (next[key] === undefined) delete next[key];
+      }
+      onChange(Object.keys(next).length > 0 ? next : undefined);
+    },
+    [layout, onChange],
+  );
+
+  const handleFontFile = useCallback(
+    async (file: File) => {
+      try {
+        update({ embeddedFont: await readEmbeddedFont(file) });
+      } catch (error) {
+        onError(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [onError, update],
+  );
+
+  const renderNumberField = (
+    { key, label, fallback }: LayoutNumberField,
+    step: number,
+  ) => (
+    <label key={key} className="flex items-center gap-2 text-xs">
+      <span className="w-20 shrink-0 text-muted-foreground">{label}</span>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={layout[key] ?? ""}
+        placeholder={String(fallback)}
+        onChange={(event) => {
+          const value = event.currentTarget.valueAsNumber;
+          update({
+            [key]: Number.isFinite(value) && value >= 0 ? value : undefined,
+          });
+        }}
+        className="h-7 text-xs md:text-xs"
+      />
+    </label>
+  );
+
+  return (
+    <Card
+      className="reveal-up gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      style={{ animationDelay: "60ms" }}
+    >
+      <PanelHeader>
+        <PanelTab icon={SlidersHorizontal} label="Layout & typography" />
+        <div className="flex items-center gap-2">
+          <ButtonGroup>
+            <ButtonGroupItem
+              onClick={() => update(COMPACT_LAYOUT)}
+              title="Tighter spacing for slides and inline docs"
+            >
+              Compact
+            </ButtonGroupItem>
+            <ButtonGroupItem
+              onClick={() => onChange(undefined)}
+              title="Back to the default font and spacing"
+            >
+              Reset
+            </ButtonGroupItem>
+          </ButtonGroup>
+          <button
+            type="button"
+            className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            onClick={onClose}
+            title="Close"
+          >
+            <X className="size-3.5" />
+          </button>
+        </div>
+      </PanelHeader>
+
+      <div className="grid gap-3 px-4 py-3 sm:grid-cols-2">
+        <div className="flex items-center gap-2 text-xs sm:col-span-2">
+          <span className="w-20 shrink-0 text-muted-foreground">Font</span>
+          {layout.embeddedFont ? (
+            <span className="flex h-7 min-w-0 flex-1 items-center gap-2 rounded-md border border-border px-3">
+              <span className="truncate">{layout.embeddedFont.family}</span>
+              <span className="shrink-0 text-muted-foreground">embedded</span>
+              <button
+                type="button"
+                className="ml-auto flex size-4 shrink-0 items-center justify-center rounded text-muted-foreground hover:text-foreground"
+                onClick={() => update({ embeddedFont: undefined })}
+                title="Remove embedded font"
+              >
+                <X className="size-3" />
+              </button>
+            </span>
+          ) : (
+            <Input
+              value={layout.font ?? ""}
+              placeholder={DEFAULT_RENDER_FONT}
+              onChange={(event) =>
+                update({ font: event.currentTarget.value || undefined })
+              }
+              className="h-7 min-w-0 flex-1 text-xs md:text-xs"
+              title="Any Google Fonts family or a font installed locally"
+            />
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 px-2.5 text-xs"
+            onClick={() => fontInputRef.current?.click()}
+            title="Embed a font file in the diagram"
+          >
+            <FileUp className="size-3" /> Upload
+          </Button>
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept=".woff2,.woff,.ttf,.otf"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.currentTarget.files?.[0];
+              event.currentTarget.value = "";
+              if (file) void handleFontFile(file);
+            }}
+          />
+        </div>
+
+        {LAYOUT_NUMBER_FIELDS.map((field) => renderNumberField(field, 2))}
+
+        <span className="text-[0.7rem] font-medium text-muted-foreground sm:col-span-2">
+          Text output (ASCII and Unicode)
+        </span>
+        {ASCII_LAYOUT_NUMBER_FIELDS.map((field) => renderNumberField(field, 1))}
+      </div>
+    </Card>
+  );
+});
+
+const PUBLISH_FONT_STATUS_LABELS = {
+  embedded: "Fonts embedded (glyph subset)",
+  linked: "Fonts could not be fetched; still linked from Google Fonts",
+  none: "No web fonts to embed",
+} as const;
+
+type PublishSvgPanelProps = {
+  snapshot: PublishSnapshot | null;
+  minify: boolean;
+  isBusy: boolean;
+  onMinifyChange: (minify: boolean) => void;
+  onRefresh: () => void;
+  onDownload: () => void;
+  onCopy: () => void;
+  onClose: () => void;
+};
+
+const PublishSvgPanel = memo(function PublishSvgPanel({
+  snapshot,
+  minify,
+  isBusy,
+  onMinifyChange,
+  onRefresh,
+  onDownload,
+  onCopy,
+  onClose,
+}: PublishSvgPanelProps) {
+  return (
+    <Card
+      className="reveal-up gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      style={{ animationDelay: "60ms" }}
+    >
+      <PanelHeader>
+        <PanelTab icon={Globe} label="SVG for publishing" />
+        <div className="flex items-center gap-2">
+          <ButtonGroup>
+            {[true, false].map((value) => (
+              <ButtonGroupItem
+                key={String(value)}
+                aria-pressed={minify === value}
+                className={cn(
+                  minify === value && "bg-accent text-accent-foreground",
+                )}
+                disabled={isBusy}
+                onClick={() => onMinifyChange(value)}
+              >
+                {value ? "Minified" : "Readable"}
+              </ButtonGroupItem>
+            ))}
+          </ButtonGroup>
+          <button
+            type="button"
+            className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            onClick={onClose}
+            title="Close"
+          >
+            <X className="size-3.5" />
+          </button>
+        </div>
+      </PanelHeader>
+
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 text-xs">
+        {snapshot ? (
+          <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+            <span>
+              <span className="font-mono font-semibold">
+                {formatByteSize(snapshot.bytes)}
+              </span>{" "}
+              <span className="text-muted-foreground">
+                (plain export {formatByteSize(snapshot.originalBytes)})
+              </span>
+            </span>
+            <span
+              className={cn(
+                "text-muted-foreground",
+                snapshot.fontStatus === "linked" && "text-destructive",
+              )}
+            >
+              {PUBLISH_FONT_STATUS_LABELS[snapshot.fontStatus]}
+            </span>
+          </div>
+        ) : (
+          <span className="flex-1 text-muted-foreground">Preparing...</span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1.5 px-2.5 text-xs"
+          onClick={onRefresh}
+          disabled={isBusy}
+          title="Rebuild from the current diagram"
+        >
+          <RefreshCw className="size-3" /> Refresh
+        </Button>
+        <ButtonGroup>
+          <ButtonGroupItem onClick={onCopy} disabled={isBusy || !snapshot}>
+            <Copy className="size-3" /> Copy
+          </ButtonGroupItem>
+          <ButtonGroupItem onClick={onDownload} disabled={isBusy || !snapshot}>
+            <Download className="size-3" /> Download
+          </ButtonGroupItem>
+        </ButtonGroup>
+      </div>
+    </Card>
+  );
+});
+
+const PDF_PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  a4: "A4",
+  letter: "Letter",
+  fit: "Fit to diagram",
+};
+
+type PdfExportPanelProps = {
+  settings: PdfSettings;
+  isBusy: boolean;
+  onChange: (settings: PdfSettings) => void;
+  onExport: () => void;
+  onClose: () => void;
+};
+
+const PdfExportPanel = memo(function PdfExportPanel({
+  settings,
+  isBusy,
+  onChange,
+  onExport,
+  onClose,
+}: PdfExportPanelProps) {
+  const toggles = [
+    { key: "fillPage", label: "Fill page" },
+    { key: "showTitle", label: "Title" },
+    { key: "showFooter", label: "Footer" },
+  ] as const;
+
+  return (
+    <Card
+      className="reveal-up gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      style={{ animationDelay: "60ms" }}
+    >
+      <PanelHeader>
+        <PanelTab icon={FileText} label="PDF export" />
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-7 gap-1.5 px-2.5 text-xs"
+            onClick={onExport}
+            disabled={isBusy}
+          >
+            <Download className="size-3" /> Download PDF
+          </Button>
+          <button
+            type="button"
+            className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            onClick={onClose}
+            title="Close"
+          >
+            <X className="size-3.5" />
+          </button>
+        </div>
+      </PanelHeader>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 text-xs">
+        <Select
+          value={settings.pageSize}
+          onValueChange={(value) =>
+            onChange({ ...settings, pageSize: value as PdfPageSize })
+          }
+        >
+          <SelectTrigger className="h-7 w-32 text-xs">
+            <SelectValue placeholder="Page" />
+          </SelectTrigger>
+          <SelectContent>
+            {PDF_PAGE_SIZES.map((pageSize) => (
+              <SelectItem key={pageSize} value={pageSize}>
+                {PDF_PAGE_SIZE_LABELS[pageSize]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ButtonGroup>
+          {(["portrait", "landscape"] as const satisfies PdfOrientation[]).map(
+            (orientation) => (
+              <ButtonGroupItem
+                key={orientation}
+                aria-pressed={settings.orientation === orientation}
+                className={cn(
+                  "capitalize",
+                  settings.orientation === orientation &&
+                    "bg-accent text-accent-foreground",
+                )}
+                disabled={settings.pageSize === "fit"}
+                onClick={() => onChange({ ...settings, orientation })}
+              >
+                {orientation}
+              </ButtonGroupItem>
+            ),
+          )}
+        </ButtonGroup>
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Margin (mm)</span>
+          <Input
+            type="number"
+            min={0}
+            step={1}
+            value={settings.margin}
+            onChange={(event) => {
+              const value = event.currentTarget.valueAsNumber;
+              onChange({
+                ...settings,
+                margin: Number.isFinite(value) && value > 0 ? value : 0,
+              });
+            }}
+            className="h-7 w-16 text-xs md:text-xs"
+          />
+        </label>
+        <ButtonGroup>
+          {toggles.map(({ key, label }) => (
+            <ButtonGroupItem
+              key={key}
+              aria-pressed={settings[key]}
+              className={cn(
+                settings[key] && "bg-accent text-accent-foreground",
+              )}
+              disabled={key === "fillPage" && settings.pageSize === "fit"}
+              onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+            >
+              {label}
+            </ButtonGroupItem>
+          ))}
+        </ButtonGroup>
       </div>
     </Card>
   );
 });
 
+const MARKDOWN_FILE_PATTERN = /\.(?:md|markdown|mdx)$/i;
+const DIAGRAM_FILE_PATTERN = /\.(?:mmd|mermaid|txt)$/i;
+const SVG_FILE_PATTERN = /\.svg$/i;
+const OPEN_FILE_ACCEPT = ".mmd,.mermaid,.txt,.svg,.md,.markdown,.mdx";
+const AUTOSAVE_DELAY_MS = 1000;
+
+function isOpenableFile(file: File): boolean {
+  return [DIAGRAM_FILE_PATTERN, SVG_FILE_PATTERN, MARKDOWN_FILE_PATTERN].some(
+    (pattern) => pattern.test(file.name),
+  );
+}
+
+function getMarkdownBlockName(fileName: string, block: MermaidBlock): string {
+  const base = fileName.replace(MARKDOWN_FILE_PATTERN, "");
+  return `${base} · ${block.heading ?? `block ${block.index + 1}`}`;
+}
+
+type MarkdownBlocksPanelProps = {
+  session: MarkdownSession;
+  /** Current source of every block that has a document, by block index. */
+  editedSources: ReadonlyMap<number, string>;
+  activeDocumentId: string | null;
+  onEditBlock: (index: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+};
+
+const MarkdownBlocksPanel = memo(function MarkdownBlocksPanel({
+  session,
+  editedSources,
+  activeDocumentId,
+  onEditBlock,
+  onExport,
+  onClose,
+}: MarkdownBlocksPanelProps) {
+  const changedCount = session.blocks.filter((block) => {
+    const source = editedSources.get(block.index);
+    return source !== undefined && source !== block.source;
+  }).length;
+
+  return (
+    <Card
+      className="reveal-up gap-0 overflow-hidden rounded-xl p-0 shadow-sm"
+      style={{ animationDelay: "60ms" }}
+    >
+      <PanelHeader>
+        <div className="flex min-w-0 items-center gap-2">
+          <PanelTab icon={BookOpen} label={session.fileName} />
+          <Badge>
+            {session.blocks.length}{" "}
+            {session.blocks.length === 1 ? "block" : "blocks"}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 px-2.5 text-xs"
+            onClick={onExport}
+            title="Download the markdown with edited blocks replaced in place"
+          >
+            <Download className="size-3" /> .md
+            {changedCount > 0 ? ` (${changedCount} edited)` : null}
+          </Button>
+          <button
+            type="button"
+            className="flex size-6 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            onClick={onClose}
+            title="Close"
+          >
+            <X className="size-3.5" />
+          </button>
+        </div>
+      </PanelHeader>
+
+      <ul className="m-0 max-h-56 list-none overflow-auto p-1">
+        {session.blocks.map((block) => {
+          const source = editedSources.get(block.index);
+          const isEdited = source !== undefined && source !== block.source;
+          const isActive =
+            session.documentIds[block.index] !== undefined &&
+            session.documentIds[block.index] === activeDocumentId;
+          const firstLine =
+            (source ?? block.source).split("\n").find((line) => line.trim()) ??
+            "(empty)";
+          return (
+            <li key={block.index}>
+              <button
+                type="button"
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-left text-xs transition-colors hover:bg-muted",
+                  isActive && "bg-accent text-accent-foreground",
+                )}
+                onClick={() => onEditBlock(block.index)}
+              >
+                <span className="w-10 shrink-0 font-mono text-muted-foreground">
+                  L{block.line}
+                </span>
+                <span className="min-w-0 flex-1 truncate">
+                  <span className="font-medium">
+                    {block.heading ?? `Block ${block.index + 1}`}
+                  </span>{" "}
+                  <span className="font-mono text-muted-foreground">
+                    {firstLine.trim()}
+                  </span>
+                </span>
+                {isEdited ? (
+                  <span
+                    className="size-1.5 shrink-0 rounded-full bg-primary"
+                    title="Edited"
+                  />
+                ) : null}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+});
+
 /* ─── Main App ─── */
 
 export function App() {
@@ -1030,48 +3981,98 @@ export function App() {
   const [mermaidTheme, setMermaidTheme] = useState<ThemeName>(
     () => MERMAID_THEME_BY_MODE[getPreferredMode()],
   );
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([]);
+  const [editingTheme, setEditingTheme] = useState<CustomTheme | null>(null);
   const [renderStyle, setRenderStyle] = useState<RenderStyle>("svg");
-  const [pngScale, setPngScale] = useState<(typeof PNG_SCALES)[number]>(2);
-  const [sourceSeed, setSourceSeed] = useState<string>(
-    DIAGRAM_PRESETS[DEFAULT_PRESET],
+  const [renderLayout, setRenderLayout] = useState<RenderLayout | undefined>();
+  const [showRenderSettings, setShowRenderSettings] = useState(false);
+  const [imageSize, setImageSize] = useState<ImageSize>({
+    mode: "scale",
+    scale: DEFAULT_IMAGE_SCALE,
+  });
+  const [rasterOptions, setRasterOptions] = useState<RasterOptions>(
+    DEFAULT_RASTER_OPTIONS,
   );
-  const [hasHydratedShareLink, setHasHydratedShareLink] = useState(false);
+  const [exportFrame, setExportFrame] =
+    useState<ExportFrame>(DEFAULT_EXPORT_FRAME);
+  const [sharedView, setSharedView] = useState<Transform | null>(null);
+  const [sourceSeed, setSourceSeed] = useState<SourceSeed>(() => ({
+    source: DIAGRAM_PRESETS[DEFAULT_PRESET],
+  }));
+  const [canUndoState, setCanUndoState] = useState(false);
+  const [canRedoState, setCanRedoState] = useState(false);
+  const [hasHydratedWorkspace, setHasHydratedWorkspace] = useState(false);
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
 
   const [svgMarkup, setSvgMarkup] = useState("");
   const [asciiMarkup, setAsciiMarkup] = useState("");
   const [renderError, setRenderError] = useState("");
-  const [exporting, setExporting] = useState<"svg" | "png" | null>(null);
+  const [renderTiming, setRenderTiming] = useState<RenderTiming | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
+  const [publishSnapshot, setPublishSnapshot] =
+    useState<PublishSnapshot | null>(null);
+  const [publishMinify, setPublishMinify] = useState(true);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [markdownSession, setMarkdownSession] =
+    useState<MarkdownSession | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  /** Files on disk that documents save to, by document id. */
+  const [fileLinks, setFileLinks] = useState<Record<string, DocumentFileLink>>(
+    {},
+  );
+  /** Source last written to (or read from) each linked file, by document id. */
+  const [savedSources, setSavedSources] = useState<Record<string, string>>({});
+  const [pdfSettings, setPdfSettings] = useState<PdfSettings>({
+    ...DEFAULT_PDF_OPTIONS,
+    showTitle: true,
+    showFooter: true,
+  });
   const [actionMessage, setActionMessage] = useState("");
   const [actionError, setActionError] = useState(false);
+  const [linkedElements, setLinkedElements] = useState<DiagramElementRef[]>([]);
+  const [isFlowchartPreview, setIsFlowchartPreview] = useState(false);
+  const [elementRevealRequest, setElementRevealRequest] =
+    useState<ElementRevealRequest | null>(null);
 
   const sourceRef = useRef<string>(DIAGRAM_PRESETS[DEFAULT_PRESET]);
   const sourceCommitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
     null,
   );
-  const requestIdRef = useRef<number>(0);
+  const viewRef = useRef<Transform | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  /** Documents whose autosave already reported missing write permission. */
+  const autosavePausedRef = useRef(new Set<string>());
+  const activeDocumentIdRef = useRef<string | null>(null);
+  const lastGoodSourceRef = useRef<string | null>(null);
+  const historyRef = useRef<EditHistory>(
+    createHistory(DIAGRAM_PRESETS[DEFAULT_PRESET]),
+  );
+  const persistedVersionsRef = useRef(new Map<string, number>());
   const actionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const availableThemes = useMemo(
     () => Object.keys(THEMES).sort() as ThemeName[],
     [],
   );
+  const activeCustomTheme = useMemo(
+    () => customThemes.find((theme) => theme.id === mermaidTheme) ?? null,
+    [customThemes, mermaidTheme],
+  );
+  // Built-in theme behind the current one; a deleted custom theme falls back to the mode default.
+  const baseTheme: ThemeName =
+    editingTheme?.base ??
+    activeCustomTheme?.base ??
+    (isCustomThemeId(mermaidTheme)
+      ? MERMAID_THEME_BY_MODE[themeMode]
+      : mermaidTheme);
+  const renderTheme: RenderTheme =
+    editingTheme?.colors ?? activeCustomTheme?.colors ?? baseTheme;
   const shikiTheme = useMemo(
-    () => getShikiThemeName(mermaidTheme, themeMode),
-    [mermaidTheme, themeMode],
+    () => getShikiThemeName(baseTheme, themeMode),
+    [baseTheme, themeMode],
   );
-  const asciiTheme = useMemo(() => {
-    const colors = THEMES[mermaidTheme];
-    const line = colors.line ?? mixHexColors(colors.fg, colors.bg, 50);
-    const border = colors.border ?? mixHexColors(colors.fg, colors.bg, 20);
-    return {
-      fg: colors.fg,
-      border,
-      line,
-      arrow: colors.accent ?? mixHexColors(colors.fg, colors.bg, 85),
-      corner: line,
-      junction: border,
-    };
-  }, [mermaidTheme]);
 
   useEffect(() => {
     const root = document.documentElement;
@@ -1079,12 +4080,13 @@ export function App() {
     root.style.colorScheme = themeMode;
   }, [themeMode]);
 
-  useEffect(() => {
-    const modeDefaultTheme = MERMAID_THEME_BY_MODE[themeMode];
+  const toggleThemeMode = useCallback(() => {
+    const nextMode: ThemeMode = themeMode === "dark" ? "light" : "dark";
+    setThemeMode(nextMode);
     setMermaidTheme((current) =>
       current === MERMAID_THEME_BY_MODE.light ||
       current === MERMAID_THEME_BY_MODE.dark
-        ? modeDefaultTheme
+        ? MERMAID_THEME_BY_MODE[nextMode]
         : current,
     );
   }, [themeMode]);
@@ -1098,62 +4100,119 @@ export function App() {
     };
   }, []);
 
+  const getSharePayload = useCallback(
+    (source: string, includeView = false): SharePayload => ({
+      source,
+      // Share links only name built-in themes; custom ones travel as JSON.
+      theme: baseTheme,
+      mode: themeMode,
+      style: renderStyle,
+      ...(imageSize.mode === "scale" ? { pngScale: imageSize.scale } : {}),
+      ...(includeView && renderStyle === "svg" && viewRef.current
+        ? { view: viewRef.current }
+        : {}),
+    }),
+    [baseTheme, imageSize, renderStyle, themeMode],
+  );
+
   const syncShareUrlForSource = useCallback(
     async (nextSource: string) => {
-      if (typeof window === "undefined" || !hasHydratedShareLink) return;
+      if (typeof window === "undefined" || !hasHydratedWorkspace) return;
       try {
         const currentUrl = new URL(window.location.href);
-        const nextUrl = await buildShareUrlForSource(nextSource, currentUrl);
+        const nextUrl = await buildShareUrlForPayload(
+          getSharePayload(nextSource),
+          currentUrl,
+        );
         if (nextUrl.toString() !== currentUrl.toString()) {
           window.history.replaceState(null, "", nextUrl);
         }
       } catch {}
     },
-    [hasHydratedShareLink],
+    [getSharePayload, hasHydratedWorkspace],
   );
 
-  const getRenderOptions = useCallback(
-    () => ({ ...THEMES[mermaidTheme], font: "DM Sans", padding: 36 }),
-    [mermaidTheme],
-  );
+  // Keep the URL in step with settings changes, not just source edits
+  useEffect(() => {
+    void syncShareUrlForSource(sourceRef.current);
+  }, [syncShareUrlForSource]);
+
+  const handleViewChange = useCallback((view: Transform) => {
+    viewRef.current = view;
+  }, []);
 
   const renderDiagramForSource = useCallback(
     async (nextSource: string) => {
-      const requestId = ++requestIdRef.current;
-
       try {
-        if (renderStyle === "svg") {
-          const svg = await renderMermaidSVGAsync(
-            nextSource,
-            getRenderOptions(),
-          );
-          if (requestId !== requestIdRef.current) return;
-          setRenderError("");
-          setSvgMarkup(svg);
+        const { result, timing } = await getRenderClient().run(
+          {
+            kind: "render",
+            source: nextSource,
+            theme: renderTheme,
+            style: renderStyle,
+            layout: renderLayout,
+            colorMode: "html",
+          },
+          "preview",
+        );
+        lastGoodSourceRef.current = nextSource;
+        setIsFlowchartPreview(detectDiagramKind(nextSource) === "flowchart");
+        setRenderTiming(timing);
+        setRenderError("");
+        setDiagnostics([]);
+        if (result.style === "svg") {
+          setSvgMarkup(result.svg);
           setAsciiMarkup("");
         } else {
-          const ascii = renderMermaidASCII(nextSource, {
-            useAscii: renderStyle === "ascii",
-            colorMode: "html",
-            theme: asciiTheme,
-          });
-          if (requestId !== requestIdRef.current) return;
-          setRenderError("");
-          setAsciiMarkup(ascii);
+          setAsciiMarkup(result.text);
           setSvgMarkup("");
         }
       } catch (error) {
-        if (requestId !== requestIdRef.current) return;
-        setRenderError(error instanceof Error ? error.message : String(error));
-        setSvgMarkup("");
-        setAsciiMarkup("");
+        if (isRenderCancelled(error)) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setRenderError(message);
+        setDiagnostics([getRenderDiagnostic(nextSource, message)]);
+        // Keep the last good output on screen; the preview marks it stale.
       }
     },
-    [asciiTheme, getRenderOptions, renderStyle],
+    [renderLayout, renderStyle, renderTheme],
   );
 
-  const handleSourceInput = useCallback(
+  const updateDocument = useCallback(
+    (id: string, patch: Partial<Omit<WorkspaceDocument, "id">>) => {
+      setDocuments((current) =>
+        current.map((document) =>
+          document.id === id &&
+          Object.entries(patch).some(
+            ([key, value]) =>
+              document[key as keyof WorkspaceDocument] !== value,
+          )
+            ? { ...document, ...patch, updatedAt: Date.now() }
+            : document,
+        ),
+      );
+    },
+    [],
+  );
+
+  const storeActiveSource = useCallback(
     (nextSource: string) => {
+      const id = activeDocumentIdRef.current;
+      if (!id) return;
+      updateDocument(id, { source: nextSource, history: historyRef.current });
+    },
+    [updateDocument],
+  );
+
+  const setHistory = useCallback((next: EditHistory) => {
+    historyRef.current = next;
+    setCanUndoState(canUndo(next));
+    setCanRedoState(canRedo(next));
+  }, []);
+
+  const handleSourceInput = useCallback(
+    (nextSource: string, options?: { checkpoint?: boolean }) => {
+      setHistory(recordEdit(historyRef.current, nextSource, options));
       sourceRef.current = nextSource;
       if (sourceCommitTimeoutRef.current) {
         clearTimeout(sourceCommitTimeoutRef.current);
@@ -1161,10 +4220,27 @@ export function App() {
       sourceCommitTimeoutRef.current = setTimeout(() => {
         void renderDiagramForSource(nextSource);
         void syncShareUrlForSource(nextSource);
+        storeActiveSource(nextSource);
         sourceCommitTimeoutRef.current = null;
       }, 120);
     },
-    [renderDiagramForSource, syncShareUrlForSource],
+    [
+      renderDiagramForSource,
+      setHistory,
+      storeActiveSource,
+      syncShareUrlForSource,
+    ],
+  );
+
+  const handlePreviewElementClick = useCallback(
+    (element: DiagramElementRef) => {
+      setLinkedElements([element]);
+      setElementRevealRequest((current) => ({
+        element,
+        id: (current?.id ?? 0) + 1,
+      }));
+    },
+    [],
   );
 
   const commitSourceNow = useCallback(
@@ -1176,73 +4252,740 @@ export function App() {
       }
       void renderDiagramForSource(nextSource);
       void syncShareUrlForSource(nextSource);
+      storeActiveSource(nextSource);
+    },
+    [renderDiagramForSource, storeActiveSource, syncShareUrlForSource],
+  );
+
+  // Store a pending debounced edit before the active document changes.
+  const flushPendingSource = useCallback(() => {
+    if (!sourceCommitTimeoutRef.current) return;
+    clearTimeout(sourceCommitTimeoutRef.current);
+    sourceCommitTimeoutRef.current = null;
+    storeActiveSource(sourceRef.current);
+  }, [storeActiveSource]);
+
+  const moveHistory = useCallback(
+    (step: (history: EditHistory) => EditHistory) => {
+      const previous = sourceRef.current;
+      const next = step(recordEdit(historyRef.current, previous));
+      const nextSource = getHistorySource(next);
+      setHistory(next);
+      if (nextSource === previous) return;
+      setSourceSeed({
+        source: nextSource,
+        caret: getChangeCaret(previous, nextSource),
+      });
+      commitSourceNow(nextSource);
+    },
+    [commitSourceNow, setHistory],
+  );
+
+  const handleUndo = useCallback(() => moveHistory(undo), [moveHistory]);
+  const handleRedo = useCallback(() => moveHistory(redo), [moveHistory]);
+
+  // The editor handles its own shortcuts; this covers focus anywhere else.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || !(event.metaKey || event.ctrlKey)) return;
+      if (event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (
+        target?.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleRedo, handleUndo]);
+
+  const openDocument = useCallback(
+    (document: WorkspaceDocument) => {
+      activeDocumentIdRef.current = document.id;
+      setActiveDocumentId(document.id);
+      sourceRef.current = document.source;
+      lastGoodSourceRef.current = null;
+      setSvgMarkup("");
+      setAsciiMarkup("");
+      setHistory(restoreHistory(document.history, document.source));
+      setSourceSeed({ source: document.source });
+      if (isThemeName(document.theme) || isCustomThemeId(document.theme)) {
+        setMermaidTheme(document.theme);
+      }
+      setRenderStyle(document.style);
+      setRenderLayout(document.layout);
+      void renderDiagramForSource(document.source);
+      void syncShareUrlForSource(document.source);
+      void saveActiveDocumentId(document.id).catch(() => {});
+    },
+    [renderDiagramForSource, setHistory, syncShareUrlForSource],
+  );
+
+  const showActionMessage = useCallback((message: string, isError = false) => {
+    setActionMessage(message);
+    setActionError(isError);
+    if (actionTimeoutRef.current) clearTimeout(actionTimeoutRef.current);
+    actionTimeoutRef.current = setTimeout(() => {
+      setActionMessage("");
+      setActionError(false);
+    }, 3000);
+  }, []);
+
+  const handleVisualEdit = useCallback(
+    (edit: FlowchartEdit) => {
+      let nextSource: string;
+      try {
+        nextSource = applyFlowchartEdit(sourceRef.current, edit);
+      } catch (error) {
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+        return;
+      }
+      setHistory(
+        recordEdit(historyRef.current, nextSource, { checkpoint: true }),
+      );
+      // No caret, so the editor keeps its place and focus stays on the preview.
+      setSourceSeed({ source: nextSource });
+      commitSourceNow(nextSource);
+    },
+    [commitSourceNow, setHistory, showActionMessage],
+  );
+
+  const handlePresetApplied = useCallback(
+    (preset: DiagramPreset) => {
+      showActionMessage(`Applied ${preset} preset`);
     },
-    [renderDiagramForSource, syncShareUrlForSource],
+    [showActionMessage],
   );
 
-  const showActionMessage = useCallback((message: string, isError = false) => {
-    setActionMessage(message);
-    setActionError(isError);
-    if (actionTimeoutRef.current) clearTimeout(actionTimeoutRef.current);
-    actionTimeoutRef.current = setTimeout(() => {
-      setActionMessage("");
-      setActionError(false);
-    }, 3000);
-  }, []);
+  const applySharePayload = useCallback((payload: SharePayload) => {
+    if (payload.mode) setThemeMode(payload.mode);
+    if (payload.pngScale !== undefined && isImageScale(payload.pngScale)) {
+      setImageSize({ mode: "scale", scale: payload.pngScale });
+    }
+    setSharedView(payload.view ?? null);
+  }, []);
+
+  // Restore the last session, then open a share link (if any) as a document.
+  useEffect(() => {
+    if (typeof window === "undefined" || hasHydratedWorkspace) return;
+
+    let isCancelled = false;
+    (async () => {
+      try {
+        const storedThemes = await loadCustomThemes();
+        if (!isCancelled) setCustomThemes(storedThemes);
+      } catch {
+        // Built-in themes still work; documents restore below either way.
+      }
+
+      try {
+        const storedLinks = await loadFileLinks();
+        if (!isCancelled) {
+          setFileLinks(
+            Object.fromEntries(
+              storedLinks.map((link) => [link.documentId, link]),
+            ),
+          );
+        }
+      } catch {
+        // Documents still restore; saving just asks for a file again.
+      }
+
+      let storedDocuments: WorkspaceDocument[] = [];
+      let storedActiveId: string | null = null;
+      try {
+        const stored = await loadWorkspace();
+        storedDocuments = stored.documents;
+        storedActiveId = stored.activeDocumentId;
+      } catch {
+        if (!isCancelled) {
+          showActionMessage("Could not restore saved diagrams", true);
+        }
+      }
+      if (isCancelled) return;
+
+      let nextDocuments = storedDocuments;
+      let activeDocument =
+        storedDocuments.find((document) => document.id === storedActiveId) ??
+        storedDocuments[0] ??
+        null;
+
+      try {
+        const currentUrl = new URL(window.location.href);
+        const token = readDiagramTokenFromUrl(currentUrl);
+        if (token) {
+          const payload = await decodeDiagramToken(token);
+          if (isCancelled) return;
+          applySharePayload(payload);
+          const theme =
+            payload.theme && isThemeName(payload.theme)
+              ? payload.theme
+              : mermaidTheme;
+          const style = payload.style ?? renderStyle;
+          // Reloading a URL synced from a document reopens that document.
+          const existing = nextDocuments.find(
+            (document) => document.source === payload.source,
+          );
+          const sharedDocument = existing
+            ? existing.theme === theme && existing.style === style
+              ? existing
+              : // Settings from the link count as an edit, so they are saved.
+                { ...existing, theme, style, updatedAt: Date.now() }
+            : createWorkspaceDocument({
+                name: getUniqueDocumentName("Shared diagram", nextDocuments),
+                source: payload.source,
+                theme,
+                style,
+              });
+          nextDocuments = existing
+            ? nextDocuments.map((document) =>
+                document.id === existing.id ? sharedDocument : document,
+              )
+            : [...nextDocuments, sharedDocument];
+          activeDocument = sharedDocument;
+
+          const canonicalUrl = writeDiagramTokenToUrl(currentUrl, token);
+          if (canonicalUrl.toString() !== currentUrl.toString()) {
+            window.history.replaceState(null, "", canonicalUrl);
+          }
+        }
+      } catch {
+        if (isCancelled) return;
+        showActionMessage("Invalid share link", true);
+      }
+
+      if (!activeDocument) {
+        activeDocument = createWorkspaceDocument({
+          name: UNTITLED_DOCUMENT_NAME,
+          source: DIAGRAM_PRESETS[DEFAULT_PRESET],
+          theme: mermaidTheme,
+          style: renderStyle,
+        });
+        nextDocuments = [activeDocument];
+      }
+
+      for (const document of storedDocuments) {
+        persistedVersionsRef.current.set(document.id, document.updatedAt);
+      }
+      setDocuments(nextDocuments);
+      openDocument(activeDocument);
+      setHasHydratedWorkspace(true);
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [
+    applySharePayload,
+    hasHydratedWorkspace,
+    mermaidTheme,
+    openDocument,
+    renderStyle,
+    showActionMessage,
+  ]);
+
+  // Theme, render style and layout are stored per document.
+  useEffect(() => {
+    if (!hasHydratedWorkspace || !activeDocumentId) return;
+    updateDocument(activeDocumentId, {
+      theme: mermaidTheme,
+      style: renderStyle,
+      layout: renderLayout,
+    });
+  }, [
+    activeDocumentId,
+    hasHydratedWorkspace,
+    mermaidTheme,
+    renderLayout,
+    renderStyle,
+    updateDocument,
+  ]);
+
+  // Write documents whose contents changed since they were last stored.
+  useEffect(() => {
+    if (!hasHydratedWorkspace) return;
+    for (const document of documents) {
+      if (persistedVersionsRef.current.get(document.id) === document.updatedAt)
+        continue;
+      persistedVersionsRef.current.set(document.id, document.updatedAt);
+      void putDocument(document).catch(() => {});
+    }
+  }, [documents, hasHydratedWorkspace]);
+
+  const handleSelectDocument = useCallback(
+    (id: string) => {
+      if (id === activeDocumentIdRef.current) return;
+      const document = documents.find((candidate) => candidate.id === id);
+      if (!document) return;
+      flushPendingSource();
+      openDocument(document);
+    },
+    [documents, flushPendingSource, openDocument],
+  );
+
+  const handleCreateDocument = useCallback(() => {
+    flushPendingSource();
+    const document = createWorkspaceDocument({
+      name: getUniqueDocumentName(UNTITLED_DOCUMENT_NAME, documents),
+      source: DIAGRAM_PRESETS[DEFAULT_PRESET],
+      theme: mermaidTheme,
+      style: renderStyle,
+      layout: renderLayout,
+    });
+    setDocuments((current) => [...current, document]);
+    openDocument(document);
+  }, [
+    documents,
+    flushPendingSource,
+    mermaidTheme,
+    openDocument,
+    renderLayout,
+    renderStyle,
+  ]);
+
+  const handleDuplicateDocument = useCallback(() => {
+    const active = documents.find(
+      (document) => document.id === activeDocumentIdRef.current,
+    );
+    if (!active) return;
+    flushPendingSource();
+    const document = createWorkspaceDocument({
+      name: getUniqueDocumentName(`${active.name} copy`, documents),
+      source: sourceRef.current,
+      theme: mermaidTheme,
+      style: renderStyle,
+      layout: renderLayout,
+    });
+    setDocuments((current) => [...current, document]);
+    openDocument(document);
+  }, [
+    documents,
+    flushPendingSource,
+    mermaidTheme,
+    openDocument,
+    renderLayout,
+    renderStyle,
+  ]);
+
+  // Markdown import
+  const editMarkdownBlock = useCallback(
+    (session: MarkdownSession, index: number) => {
+      const block = session.blocks[index];
+      if (!block) return;
+      flushPendingSource();
+      const existing = documents.find(
+        (document) => document.id === session.documentIds[index],
+      );
+      if (existing) {
+        if (existing.id !== activeDocumentIdRef.current) openDocument(existing);
+        return;
+      }
+      const document = createWorkspaceDocument({
+        name: getUniqueDocumentName(
+          getMarkdownBlockName(session.fileName, block),
+          documents,
+        ),
+        source: block.source,
+        theme: mermaidTheme,
+        style: renderStyle,
+        layout: renderLayout,
+      });
+      setDocuments((current) => [...current, document]);
+      setMarkdownSession({
+        ...session,
+        documentIds: { ...session.documentIds, [index]: document.id },
+      });
+      openDocument(document);
+    },
+    [
+      documents,
+      flushPendingSource,
+      mermaidTheme,
+      openDocument,
+      renderLayout,
+      renderStyle,
+    ],
+  );
+
+  const handleEditMarkdownBlock = useCallback(
+    (index: number) => {
+      if (markdownSession) editMarkdownBlock(markdownSession, index);
+    },
+    [editMarkdownBlock, markdownSession],
+  );
+
+  const handleOpenMarkdownFile = useCallback(
+    async (file: File) => {
+      try {
+        const text = await file.text();
+        const blocks = extractMermaidBlocks(text);
+        if (blocks.length === 0) {
+          throw new Error(`No mermaid blocks found in ${file.name}`);
+        }
+        const session: MarkdownSession = {
+          fileName: file.name,
+          text,
+          blocks,
+          documentIds: {},
+        };
+        setMarkdownSession(session);
+        editMarkdownBlock(session, 0);
+        showActionMessage(
+          `Opened ${file.name} (${blocks.length} mermaid ${blocks.length === 1 ? "block" : "blocks"})`,
+        );
+      } catch (error) {
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+      }
+    },
+    [editMarkdownBlock, showActionMessage],
+  );
+
+  const markdownEditedSources = useMemo(() => {
+    const sources = new Map<number, string>();
+    if (!markdownSession) return sources;
+    for (const [index, id] of Object.entries(markdownSession.documentIds)) {
+      const document = documents.find((candidate) => candidate.id === id);
+      if (document) sources.set(Number(index), document.source);
+    }
+    return sources;
+  }, [documents, markdownSession]);
+
+  const handleExportMarkdown = useCallback(() => {
+    if (!markdownSession) return;
+    const sources = new Map(markdownEditedSources);
+    // The active document may have edits that are not committed yet.
+    for (const [index, id] of Object.entries(markdownSession.documentIds)) {
+      if (id === activeDocumentIdRef.current) {
+        sources.set(Number(index), sourceRef.current);
+      }
+    }
+    triggerDownload(
+      new Blob(
+        [
+          replaceMermaidBlocks(
+            markdownSession.text,
+            markdownSession.blocks,
+            sources,
+          ),
+        ],
+        { type: "text/markdown;charset=utf-8" },
+      ),
+      markdownSession.fileName,
+    );
+    showActionMessage(`${markdownSession.fileName} downloaded`);
+  }, [markdownEditedSources, markdownSession, showActionMessage]);
+
+  // File import
+  const openImportedDocument = useCallback(
+    (
+      fields: Pick<WorkspaceDocument, "name" | "source"> &
+        Partial<Pick<WorkspaceDocument, "theme" | "style" | "layout">> & {
+          baseTheme?: string;
+        },
+    ) => {
+      flushPendingSource();
+      const isKnownTheme = (theme: string | undefined): theme is string =>
+        theme !== undefined &&
+        (isThemeName(theme) ||
+          customThemes.some((candidate) => candidate.id === theme));
+      const document = createWorkspaceDocument({
+        name: getUniqueDocumentName(fields.name, documents),
+        source: fields.source,
+        theme: isKnownTheme(fields.theme)
+          ? fields.theme
+          : isKnownTheme(fields.baseTheme)
+            ? fields.baseTheme
+            : mermaidTheme,
+        // Exported SVGs bring their own style and layout; plain text takes the current ones.
+        style: fields.style ?? renderStyle,
+        layout: fields.style ? fields.layout : renderLayout,
+      });
+      setDocuments((current) => [...current, document]);
+      openDocument(document);
+      return document;
+    },
+    [
+      customThemes,
+      documents,
+      flushPendingSource,
+      mermaidTheme,
+      openDocument,
+      renderLayout,
+      renderStyle,
+    ],
+  );
+
+  const storeFileLink = useCallback(
+    (documentId: string, link: DocumentFileLink | null) => {
+      setFileLinks((current) => {
+        const { [documentId]: _previous, ...rest } = current;
+        return link ? { ...rest, [documentId]: link } : rest;
+      });
+      void (link ? putFileLink(link) : removeFileLink(documentId)).catch(
+        () => {},
+      );
+    },
+    [],
+  );
+
+  /** Open a file; diagram files opened with a `handle` save back to it. */
+  const handleOpenFile = useCallback(
+    async (file: File, handle?: FileSystemFileHandle) => {
+      if (MARKDOWN_FILE_PATTERN.test(file.name)) {
+        await handleOpenMarkdownFile(file);
+        return;
+      }
+      try {
+        const name =
+          file.name.replace(/\.[^.]+$/, "") || UNTITLED_DOCUMENT_NAME;
+        const text = await file.text();
+        if (SVG_FILE_PATTERN.test(file.name)) {
+          const metadata = readStudioMetadata(text);
+          if (!metadata) {
+            throw new Error(
+              `${file.name} was not exported by Mermaid Studio, so it has no diagram source.`,
+            );
+          }
+          openImportedDocument({ name, ...metadata });
+        } else if (DIAGRAM_FILE_PATTERN.test(file.name)) {
+          const source = text.replace(/\r\n?/g, "\n");
+          const document = openImportedDocument({ name, source });
+          if (handle) {
+            storeFileLink(document.id, {
+              documentId: document.id,
+              file: handle,
+              autosave: false,
+            });
+            setSavedSources((current) => ({
+              ...current,
+              [document.id]: source,
+            }));
+          }
+        } else {
+          throw new Error(
+            `Cannot open ${file.name}. Use a .mmd, .mermaid, .txt, .svg or markdown file.`,
+          );
+        }
+        showActionMessage(`Opened ${file.name}`);
+      } catch (error) {
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+      }
+    },
+    [
+      handleOpenMarkdownFile,
+      openImportedDocument,
+      showActionMessage,
+      storeFileLink,
+    ],
+  );
+
+  const handleOpenFileClick = useCallback(async () => {
+    if (!supportsFileSystemAccess()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    try {
+      const handle = await pickFileToOpen();
+      if (handle) await handleOpenFile(await handle.getFile(), handle);
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }, [handleOpenFile, showActionMessage]);
+
+  // Open files dropped anywhere on the page or pasted outside text fields.
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) =>
+      event.dataTransfer?.types.includes("Files") ?? false;
+    let dragDepth = 0;
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepth++;
+      setIsDraggingFile(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) setIsDraggingFile(false);
+    };
+    const handleDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) event.preventDefault();
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth = 0;
+      setIsDraggingFile(false);
+      const file = event.dataTransfer?.files[0];
+      if (file) void handleOpenFile(file);
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = event.clipboardData?.files[0];
+      if (!file || !isOpenableFile(file)) return;
+      event.preventDefault();
+      void handleOpenFile(file);
+    };
+    window.addEventListener("dragenter", handleDragEnter);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("drop", handleDrop);
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("drop", handleDrop);
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, [handleOpenFile]);
 
-  const handlePresetApplied = useCallback(
-    (preset: DiagramPreset) => {
-      showActionMessage(`Applied ${preset} preset`);
+  const handleRenameDocument = useCallback(
+    (id: string, name: string) => {
+      updateDocument(id, { name });
     },
-    [showActionMessage],
+    [updateDocument],
   );
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
+  const handleDeleteDocument = useCallback(
+    (id: string) => {
+      const document = documents.find((candidate) => candidate.id === id);
+      if (!document) return;
+      if (!window.confirm(`Delete "${document.name}"? This cannot be undone.`))
+        return;
 
-    let isCancelled = false;
-    (async () => {
-      try {
-        const currentUrl = new URL(window.location.href);
-        const token = readDiagramTokenFromUrl(currentUrl);
-        if (!token) return;
-        const decoded = await decodeDiagramToken(token);
-        if (isCancelled) return;
-        sourceRef.current = decoded;
-        setSourceSeed(decoded);
-        void renderDiagramForSource(decoded);
+      const index = documents.indexOf(document);
+      let remaining = documents.filter((candidate) => candidate.id !== id);
+      persistedVersionsRef.current.delete(id);
+      void removeDocument(id).catch(() => {});
+      setFileLinks((current) => {
+        const { [id]: _removed, ...rest } = current;
+        return rest;
+      });
 
-        const canonicalUrl = writeDiagramTokenToUrl(currentUrl, token);
-        if (canonicalUrl.toString() !== currentUrl.toString()) {
-          window.history.replaceState(null, "", canonicalUrl);
-        }
-      } catch {
-        if (!isCancelled) {
-          showActionMessage("Invalid share link", true);
+      if (id === activeDocumentIdRef.current) {
+        if (sourceCommitTimeoutRef.current) {
+          clearTimeout(sourceCommitTimeoutRef.current);
+          sourceCommitTimeoutRef.current = null;
         }
-      } finally {
-        if (!isCancelled) {
-          setHasHydratedShareLink(true);
+        let next = remaining[Math.min(index, remaining.length - 1)];
+        if (!next) {
+          next = createWorkspaceDocument({
+            name: UNTITLED_DOCUMENT_NAME,
+            source: DIAGRAM_PRESETS[DEFAULT_PRESET],
+            theme: mermaidTheme,
+            style: renderStyle,
+            layout: renderLayout,
+          });
+          remaining = [next];
         }
+        openDocument(next);
       }
-    })();
+      setDocuments(remaining);
+      showActionMessage(`Deleted ${document.name}`);
+    },
+    [
+      documents,
+      mermaidTheme,
+      openDocument,
+      renderLayout,
+      renderStyle,
+      showActionMessage,
+    ],
+  );
 
-    return () => {
-      isCancelled = true;
-    };
-  }, [renderDiagramForSource, showActionMessage]);
+  /**
+   * Run an export against the current source. When that source does not
+   * render, offer the last good render (what the stale preview shows)
+   * instead of failing outright.
+   */
+  const withExportSource = useCallback(
+    async <T,>(render: (source: string) => T | Promise<T>): Promise<T> => {
+      try {
+        return await render(sourceRef.current);
+      } catch (error) {
+        const lastGoodSource = lastGoodSourceRef.current;
+        if (
+          lastGoodSource === null ||
+          lastGoodSource === sourceRef.current ||
+          !window.confirm(
+            "The source has errors, so the preview shows the last successful render. Export that version instead?",
+          )
+        ) {
+          throw error;
+        }
+        return await render(lastGoodSource);
+      }
+    },
+    [],
+  );
 
-  const renderSvgSnapshot = useCallback(async () => {
-    const renderedSvg = await renderMermaidSVGAsync(
-      sourceRef.current,
-      getRenderOptions(),
-    );
-    setSvgMarkup(renderedSvg);
-    return renderedSvg;
-  }, [getRenderOptions]);
+  /**
+   * The current diagram as an export-ready SVG. With `withMetadata`, the
+   * source, theme and style ride along so the file can be opened again.
+   */
+  const renderSvgSnapshot = useCallback(
+    ({ withMetadata = false }: { withMetadata?: boolean } = {}) =>
+      withExportSource((source) =>
+        getRenderClient()
+          .run({
+            kind: "render",
+            source,
+            theme: renderTheme,
+            style: "svg",
+            layout: renderLayout,
+          })
+          .then(({ result }) => {
+            if (result.style !== "svg") return "";
+            const svg = applyExportFrame(result.svg, exportFrame);
+            return withMetadata
+              ? embedStudioMetadata(svg, {
+                  source,
+                  theme: mermaidTheme,
+                  baseTheme,
+                  style: renderStyle,
+                  layout: renderLayout,
+                })
+              : svg;
+          }),
+      ),
+    [
+      baseTheme,
+      exportFrame,
+      mermaidTheme,
+      renderLayout,
+      renderStyle,
+      renderTheme,
+      withExportSource,
+    ],
+  );
 
-  const createPngBlobFromSvg = useCallback(
-    async (svg: string, scale: number) => {
+  const createImageBlobFromSvg = useCallback(
+    async (
+      svg: string,
+      size: ImageSize,
+      options: RasterOptions = DEFAULT_RASTER_OPTIONS,
+    ) => {
+      const label = RASTER_FORMAT_LABELS[options.format];
       let svgUrl = "";
       try {
         const rawSvgBlob = new Blob([svg], {
@@ -1255,25 +4998,68 @@ export function App() {
         const height = measuredSize?.height ?? image.height;
         if (!width || !height)
           throw new Error(
-            "Could not calculate PNG dimensions from rendered SVG.",
+            `Could not calculate ${label} dimensions from rendered SVG.`,
+          );
+
+        let scale = resolveImageScale(size, { width, height });
+        let pixels = getCanvasPixelSize({ width, height }, scale);
+        const check = checkCanvasSize({ width, height }, scale);
+        if (check.status === "too-large") {
+          const fitting = getCanvasPixelSize(
+            { width, height },
+            check.fittingScale,
           );
+          if (
+            !window.confirm(
+              `A ${pixels.width}×${pixels.height} px image is larger than browsers can draw. Export at ${fitting.width}×${fitting.height} px instead?`,
+            )
+          ) {
+            throw new Error(`${label} export cancelled.`);
+          }
+          scale = check.fittingScale;
+          pixels = fitting;
+        } else if (
+          check.status === "risky" &&
+          !window.confirm(
+            `A ${pixels.width}×${pixels.height} px image may fail in some browsers (Safari limits canvases to about 16.7 megapixels). Continue?`,
+          )
+        ) {
+          throw new Error(`${label} export cancelled.`);
+        }
 
         const canvas = document.createElement("canvas");
-        canvas.width = Math.max(1, Math.round(width * scale));
-        canvas.height = Math.max(1, Math.round(height * scale));
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
         const context = canvas.getContext("2d");
         if (!context)
-          throw new Error("Could not initialize PNG canvas context.");
+          throw new Error(`Could not initialize ${label} canvas context.`);
+        if (options.format === "jpeg") {
+          context.fillStyle = options.fill;
+          context.fillRect(0, 0, canvas.width, canvas.height);
+        }
         context.setTransform(scale, 0, 0, scale, 0, 0);
         context.drawImage(image, 0, 0);
 
-        return await new Promise<Blob>((resolve, reject) => {
+        const mimeType = `image/${options.format}`;
+        const blob = await new Promise<Blob>((resolve, reject) => {
           canvas.toBlob(
             (blob) =>
-              blob ? resolve(blob) : reject(new Error("PNG export failed.")),
-            "image/png",
+              blob
+                ? resolve(blob)
+                : reject(
+                    new Error(
+                      `${label} export failed: the browser could not encode a ${pixels.width}×${pixels.height} px image.`,
+                    ),
+                  ),
+            mimeType,
+            options.format === "png" ? undefined : options.quality,
           );
         });
+        // Browsers without an encoder for the format silently return PNG.
+        if (blob.type !== mimeType) {
+          throw new Error(`${label} export is not supported in this browser.`);
+        }
+        return { blob, ...pixels };
       } finally {
         if (svgUrl) URL.revokeObjectURL(svgUrl);
       }
@@ -1290,7 +5076,7 @@ export function App() {
   const handleSvgDownload = useCallback(async () => {
     setExporting("svg");
     try {
-      const svg = await renderSvgSnapshot();
+      const svg = await renderSvgSnapshot({ withMetadata: true });
       triggerDownload(
         new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
         `diagram-${Date.now()}.svg`,
@@ -1307,12 +5093,342 @@ export function App() {
   }, [renderSvgSnapshot, showActionMessage]);
 
   const handlePngDownload = useCallback(async () => {
-    setExporting("png");
+    setExporting("image");
+    try {
+      const svg = await renderSvgSnapshot();
+      const image = await createImageBlobFromSvg(svg, imageSize, rasterOptions);
+      triggerDownload(
+        image.blob,
+        `diagram-${Date.now()}-${image.width}x${image.height}.${RASTER_FILE_EXTENSIONS[rasterOptions.format]}`,
+      );
+      showActionMessage(
+        `${RASTER_FORMAT_LABELS[rasterOptions.format]} downloaded (${image.width}×${image.height})`,
+      );
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    } finally {
+      setExporting(null);
+    }
+  }, [
+    createImageBlobFromSvg,
+    imageSize,
+    rasterOptions,
+    renderSvgSnapshot,
+    showActionMessage,
+  ]);
+
+  // Save to disk
+  /** Re-export the document's paired SVG and PNG files from the current render. */
+  const writePairedExports = useCallback(
+    async (link: DocumentFileLink) => {
+      if (!link.svg && !link.png) return;
+      const svg = await renderSvgSnapshot({ withMetadata: true });
+      if (link.svg) await writeFileHandle(link.svg, svg);
+      if (link.png) {
+        const image = await createImageBlobFromSvg(svg, imageSize);
+        await writeFileHandle(link.png, image.blob);
+      }
+    },
+    [createImageBlobFromSvg, imageSize, renderSvgSnapshot],
+  );
+
+  const writeLinkedFile = useCallback(
+    async (link: DocumentFileLink, source: string) => {
+      await writeFileHandle(link.file, source);
+      autosavePausedRef.current.delete(link.documentId);
+      setSavedSources((current) => ({
+        ...current,
+        [link.documentId]: source,
+      }));
+    },
+    [],
+  );
+
+  const handleSaveFileAs = useCallback(async () => {
+    const document = documents.find(
+      (candidate) => candidate.id === activeDocumentIdRef.current,
+    );
+    if (!document) return;
+    flushPendingSource();
+    const source = sourceRef.current;
+    const fileName = `${document.name}.${SAVE_FILE_EXTENSIONS.mermaid}`;
+    if (!supportsFileSystemAccess()) {
+      triggerDownload(
+        new Blob([source], { type: "text/plain;charset=utf-8" }),
+        fileName,
+      );
+      showActionMessage(`${fileName} downloaded`);
+      return;
+    }
+    try {
+      const existing = fileLinks[document.id];
+      const handle = await pickFileToSave(fileName, "mermaid", existing?.file);
+      if (!handle) return;
+      // Moving to a new file keeps the paired exports and autosave choice.
+      const link: DocumentFileLink = {
+        ...existing,
+        documentId: document.id,
+        file: handle,
+        autosave: existing?.autosave ?? false,
+      };
+      await writeLinkedFile(link, source);
+      storeFileLink(document.id, link);
+      await writePairedExports(link);
+      showActionMessage(`Saved ${handle.name}`);
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }, [
+    documents,
+    fileLinks,
+    flushPendingSource,
+    showActionMessage,
+    storeFileLink,
+    writeLinkedFile,
+    writePairedExports,
+  ]);
+
+  /** Overwrite the document's file, or ask for one the first time. */
+  const handleSaveFile = useCallback(async () => {
+    const documentId = activeDocumentIdRef.current;
+    const link = documentId ? fileLinks[documentId] : undefined;
+    if (!link) {
+      await handleSaveFileAs();
+      return;
+    }
+    flushPendingSource();
+    try {
+      await writeLinkedFile(link, sourceRef.current);
+      await writePairedExports(link);
+      const names = [link.file, link.svg, link.png].flatMap((handle) =>
+        handle ? [handle.name] : [],
+      );
+      showActionMessage(`Saved ${names.join(", ")}`);
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }, [
+    fileLinks,
+    flushPendingSource,
+    handleSaveFileAs,
+    showActionMessage,
+    writeLinkedFile,
+    writePairedExports,
+  ]);
+
+  const handleToggleAutosave = useCallback(async () => {
+    const documentId = activeDocumentIdRef.current;
+    const link = documentId ? fileLinks[documentId] : undefined;
+    if (!link) return;
+    if (!link.autosave) {
+      // Ask for write permission now, while there is a click to ask from.
+      try {
+        await writeLinkedFile(link, sourceRef.current);
+      } catch (error) {
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+        return;
+      }
+    }
+    storeFileLink(link.documentId, { ...link, autosave: !link.autosave });
+  }, [fileLinks, showActionMessage, storeFileLink, writeLinkedFile]);
+
+  const handleTogglePairedExport = useCallback(
+    async (kind: PairedExportKind) => {
+      const documentId = activeDocumentIdRef.current;
+      const link = documentId ? fileLinks[documentId] : undefined;
+      if (!link) return;
+      if (link[kind]) {
+        storeFileLink(link.documentId, { ...link, [kind]: undefined });
+        return;
+      }
+      try {
+        const baseName = link.file.name.replace(/\.[^.]+$/, "");
+        const handle = await pickFileToSave(
+          `${baseName}.${SAVE_FILE_EXTENSIONS[kind]}`,
+          kind,
+          link.file,
+        );
+        if (!handle) return;
+        storeFileLink(link.documentId, { ...link, [kind]: handle });
+        await writePairedExports({
+          documentId: link.documentId,
+          file: link.file,
+          autosave: link.autosave,
+          [kind]: handle,
+        });
+        showActionMessage(`Exported ${handle.name}; it updates on every save`);
+      } catch (error) {
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+      }
+    },
+    [fileLinks, showActionMessage, storeFileLink, writePairedExports],
+  );
+
+  const handleUnlinkFile = useCallback(() => {
+    const documentId = activeDocumentIdRef.current;
+    if (documentId) storeFileLink(documentId, null);
+  }, [storeFileLink]);
+
+  // Ctrl+S saves from anywhere, the editor included, instead of saving the page.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      if (event.key.toLowerCase() !== "s") return;
+      event.preventDefault();
+      void (event.shiftKey ? handleSaveFileAs() : handleSaveFile());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleSaveFile, handleSaveFileAs]);
+
+  const activeFileLink = activeDocumentId
+    ? (fileLinks[activeDocumentId] ?? null)
+    : null;
+  const activeDocumentSource = documents.find(
+    (document) => document.id === activeDocumentId,
+  )?.source;
+
+  // Autosave writes the source once edits settle; paired exports wait for Ctrl+S.
+  useEffect(() => {
+    if (!activeFileLink || activeDocumentSource === undefined) return;
+    const { documentId } = activeFileLink;
+    if (!(documentId in savedSources)) {
+      // After a reload, assume the file still matches the restored source.
+      setSavedSources((current) => ({
+        ...current,
+        [documentId]: activeDocumentSource,
+      }));
+      return;
+    }
+    if (
+      !activeFileLink.autosave ||
+      savedSources[documentId] === activeDocumentSource
+    ) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      void (async () => {
+        try {
+          // Permission prompts need a click, so a new session waits for Ctrl+S.
+          if (!(await canWriteFileHandle(activeFileLink.file))) {
+            if (!autosavePausedRef.current.has(documentId)) {
+              autosavePausedRef.current.add(documentId);
+              showActionMessage(
+                `Autosave paused: press Ctrl+S to allow writing ${activeFileLink.file.name}`,
+                true,
+              );
+            }
+            return;
+          }
+          await writeLinkedFile(activeFileLink, activeDocumentSource);
+        } catch (error) {
+          showActionMessage(
+            error instanceof Error ? error.message : String(error),
+            true,
+          );
+        }
+      })();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [
+    activeDocumentSource,
+    activeFileLink,
+    savedSources,
+    showActionMessage,
+    writeLinkedFile,
+  ]);
+
+  const buildPublishSnapshot = useCallback(
+    async (minify: boolean) => {
+      setExporting("publish");
+      try {
+        const svg = await renderSvgSnapshot({ withMetadata: true });
+        const published = await createPublishSvg(svg, { minify });
+        setPublishSnapshot({
+          ...published,
+          originalBytes: new Blob([svg]).size,
+        });
+      } catch (error) {
+        setPublishSnapshot(null);
+        showActionMessage(
+          error instanceof Error ? error.message : String(error),
+          true,
+        );
+      } finally {
+        setExporting(null);
+      }
+    },
+    [renderSvgSnapshot, showActionMessage],
+  );
+
+  const handlePublishSvg = useCallback(() => {
+    void buildPublishSnapshot(publishMinify);
+  }, [buildPublishSnapshot, publishMinify]);
+
+  const handlePublishMinifyChange = useCallback(
+    (minify: boolean) => {
+      setPublishMinify(minify);
+      void buildPublishSnapshot(minify);
+    },
+    [buildPublishSnapshot],
+  );
+
+  const handlePublishedSvgDownload = useCallback(() => {
+    if (!publishSnapshot) return;
+    triggerDownload(
+      new Blob([publishSnapshot.svg], { type: "image/svg+xml;charset=utf-8" }),
+      `diagram-${Date.now()}.svg`,
+    );
+    showActionMessage(
+      `Published SVG downloaded (${formatByteSize(publishSnapshot.bytes)})`,
+    );
+  }, [publishSnapshot, showActionMessage]);
+
+  const handleCopyPublishedSvg = useCallback(async () => {
+    if (!publishSnapshot) return;
+    try {
+      await navigator.clipboard.writeText(publishSnapshot.svg);
+      showActionMessage("Published SVG copied");
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }, [publishSnapshot, showActionMessage]);
+
+  const handlePdfDownload = useCallback(async () => {
+    setExporting("pdf");
     try {
+      const { showTitle, showFooter, ...options } = pdfSettings;
+      const name =
+        documents.find((document) => document.id === activeDocumentId)?.name ??
+        UNTITLED_DOCUMENT_NAME;
       const svg = await renderSvgSnapshot();
-      const pngBlob = await createPngBlobFromSvg(svg, pngScale);
-      triggerDownload(pngBlob, `diagram-${Date.now()}-${pngScale}x.png`);
-      showActionMessage(`PNG downloaded (${pngScale}x)`);
+      const pdfBlob = await createPdfFromSvg(svg, {
+        ...options,
+        title: showTitle ? name : undefined,
+        footer: showFooter
+          ? `${name} · exported ${new Date().toLocaleString()}`
+          : undefined,
+      });
+      triggerDownload(pdfBlob, `diagram-${Date.now()}.pdf`);
+      showActionMessage("PDF downloaded");
     } catch (error) {
       showActionMessage(
         error instanceof Error ? error.message : String(error),
@@ -1321,11 +5437,19 @@ export function App() {
     } finally {
       setExporting(null);
     }
-  }, [createPngBlobFromSvg, pngScale, renderSvgSnapshot, showActionMessage]);
+  }, [
+    activeDocumentId,
+    documents,
+    pdfSettings,
+    renderSvgSnapshot,
+    showActionMessage,
+  ]);
 
   const handleCopySvg = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(await renderSvgSnapshot());
+      await navigator.clipboard.writeText(
+        await renderSvgSnapshot({ withMetadata: true }),
+      );
       showActionMessage("SVG copied");
     } catch (error) {
       showActionMessage(
@@ -1344,26 +5468,33 @@ export function App() {
         throw new Error("PNG clipboard copy is not supported in this browser.");
       }
       const svg = await renderSvgSnapshot();
-      const pngBlob = await createPngBlobFromSvg(svg, pngScale);
+      const image = await createImageBlobFromSvg(svg, imageSize);
       await navigator.clipboard.write([
-        new ClipboardItem({ "image/png": pngBlob }),
+        new ClipboardItem({ "image/png": image.blob }),
       ]);
-      showActionMessage(`PNG copied (${pngScale}x)`);
+      showActionMessage(`PNG copied (${image.width}×${image.height})`);
     } catch (error) {
       showActionMessage(
         error instanceof Error ? error.message : String(error),
         true,
       );
     }
-  }, [createPngBlobFromSvg, pngScale, renderSvgSnapshot, showActionMessage]);
+  }, [createImageBlobFromSvg, imageSize, renderSvgSnapshot, showActionMessage]);
 
   const handleCopyAscii = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(
-        renderMermaidASCII(sourceRef.current, {
-          useAscii: true,
-          colorMode: "none",
-        }),
+        await withExportSource((source) =>
+          getRenderClient()
+            .run({
+              kind: "render",
+              source,
+              theme: renderTheme,
+              style: "ascii",
+              layout: renderLayout,
+            })
+            .then(({ result }) => (result.style === "svg" ? "" : result.text)),
+        ),
       );
       showActionMessage("ASCII copied");
     } catch (error) {
@@ -1372,7 +5503,152 @@ export function App() {
         true,
       );
     }
-  }, [showActionMessage]);
+  }, [renderLayout, renderTheme, showActionMessage, withExportSource]);
+
+  const handleCopyHtml = useCallback(async () => {
+    try {
+      const caption = documents.find(
+        (document) => document.id === activeDocumentId,
+      )?.name;
+      const snippet =
+        renderStyle === "svg"
+          ? createHtmlSnippet(
+              { kind: "svg", svg: await renderSvgSnapshot() },
+              resolveThemeColors(renderTheme),
+              caption,
+            )
+          : await withExportSource((source) =>
+              getRenderClient()
+                .run({
+                  kind: "render",
+                  source,
+                  theme: renderTheme,
+                  style: renderStyle,
+                  layout: renderLayout,
+                  colorMode: "html",
+                })
+                .then(({ result }) =>
+                  createHtmlSnippet(
+                    {
+                      kind: "text",
+                      html: result.style === "svg" ? "" : result.text,
+                    },
+                    resolveThemeColors(renderTheme),
+                    caption,
+                  ),
+                ),
+            );
+      await navigator.clipboard.writeText(snippet);
+      showActionMessage("HTML snippet copied");
+    } catch (error) {
+      showActionMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }, [
+    activeDocumentId,
+    documents,
+    renderLayout,
+    renderStyle,
+    renderSvgSnapshot,
+    renderTheme,
+    showActionMessage,
+    withExportSource,
+  ]);
+
+  const handleRenderSettingsError = useCallback(
+    (message: string) => showActionMessage(message, true),
+    [showActionMessage],
+  );
+
+  // Custom themes
+  const handleOpenThemeEditor = useCallback(() => {
+    setEditingTheme(
+      activeCustomTheme
+        ? { ...activeCustomTheme, colors: { ...activeCustomTheme.colors } }
+        : createCustomTheme(
+            baseTheme,
+            getUniqueDocumentName(`${baseTheme} (custom)`, customThemes),
+          ),
+    );
+  }, [activeCustomTheme, baseTheme, customThemes]);
+
+  const storeCustomThemes = useCallback(
+    (themes: CustomTheme[]) => {
+      const ids = new Set(themes.map((theme) => theme.id));
+      setCustomThemes((current) =>
+        [...current.filter((theme) => !ids.has(theme.id)), ...themes].sort(
+          (a, b) => a.name.localeCompare(b.name),
+        ),
+      );
+      void Promise.all(themes.map(putCustomTheme)).catch(() =>
+        showActionMessage("Could not save theme locally", true),
+      );
+    },
+    [showActionMessage],
+  );
+
+  const handleSaveTheme = useCallback(() => {
+    if (!editingTheme) return;
+    const theme = { ...editingTheme, name: editingTheme.name.trim() };
+    storeCustomThemes([theme]);
+    setMermaidTheme(theme.id);
+    setEditingTheme(null);
+    showActionMessage(`Saved theme "${theme.name}"`);
+  }, [editingTheme, showActionMessage, storeCustomThemes]);
+
+  const handleDeleteTheme = useCallback(() => {
+    if (!editingTheme) return;
+    if (!window.confirm(`Delete the theme "${editingTheme.name}"?`)) return;
+    setCustomThemes((current) =>
+      current.filter((theme) => theme.id !== editingTheme.id),
+    );
+    void removeCustomTheme(editingTheme.id).catch(() =>
+      showActionMessage("Could not delete theme", true),
+    );
+    if (mermaidTheme === editingTheme.id) setMermaidTheme(editingTheme.base);
+    setEditingTheme(null);
+  }, [editingTheme, mermaidTheme, showActionMessage]);
+
+  const handleExportTheme = useCallback(() => {
+    if (!editingTheme) return;
+    const fileName =
+      editingTheme.name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "") || "theme";
+    triggerDownload(
+      new Blob([serializeCustomTheme(editingTheme)], {
+        type: "application/json",
+      }),
+      `${fileName}.theme.json`,
+    );
+    showActionMessage("Theme exported");
+  }, [editingTheme, showActionMessage]);
+
+  const handleImportThemes = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseCustomThemesJson(await file.text());
+        storeCustomThemes(imported);
+        setMermaidTheme(imported[0]!.id);
+        setEditingTheme(imported[0]!);
+        showActionMessage(
+          `Imported ${imported.length} theme${imported.length === 1 ? "" : "s"}`,
+        );
+      } catch (error) {
+        showActionMessage(
+          error instanceof ThemeImportError
+            ? `Invalid theme file: ${error.message}`
+            : "Could not read theme file",
+          true,
+        );
+      }
+    },
+    [showActionMessage, storeCustomThemes],
+  );
 
   const handleCopyShareLink = useCallback(async () => {
     try {
@@ -1380,8 +5656,8 @@ export function App() {
         throw new Error("Share links are only available in a browser.");
       }
       const currentUrl = new URL(window.location.href);
-      const shareUrl = await buildShareUrlForSource(
-        sourceRef.current,
+      const shareUrl = await buildShareUrlForPayload(
+        getSharePayload(sourceRef.current, true),
         currentUrl,
       );
       if (shareUrl.toString() !== currentUrl.toString()) {
@@ -1395,9 +5671,11 @@ export function App() {
         true,
       );
     }
-  }, [showActionMessage]);
+  }, [getSharePayload, showActionMessage]);
 
   const isBusy = exporting !== null;
+  const isPreviewStale =
+    !!renderError && !!(renderStyle === "svg" ? svgMarkup : asciiMarkup);
 
   return (
     <div className="relative z-10 mx-auto w-full max-w-420 p-3 md:p-4 lg:px-6">
@@ -1409,6 +5687,14 @@ export function App() {
         <div className="h-full w-full rounded-full bg-primary/15" />
       </div>
 
+      {isDraggingFile ? (
+        <div className="pointer-events-none fixed inset-3 z-50 flex items-center justify-center rounded-2xl border-2 border-dashed border-primary bg-background/70 backdrop-blur-sm">
+          <span className="rounded-full border border-border bg-card px-4 py-1.5 text-sm font-medium shadow-lg">
+            Drop a .mmd, exported .svg or markdown file to open it
+          </span>
+        </div>
+      ) : null}
+
       {/* ─── Top bar ─── */}
       <Card className="reveal-up mb-3 flex-row items-center justify-between gap-3 rounded-xl px-4 py-2.5 shadow-sm">
         <div className="flex items-center gap-3">
@@ -1433,7 +5719,7 @@ export function App() {
             Mermaid Studio
           </span>
           <div className="mx-1 hidden h-5 w-px bg-border sm:block" />
-          <Badge dot>{mermaidTheme}</Badge>
+          <Badge dot>{activeCustomTheme?.name ?? mermaidTheme}</Badge>
         </div>
 
         <div className="flex items-center gap-2">
@@ -1446,14 +5732,78 @@ export function App() {
               <SelectValue placeholder="Theme" />
             </SelectTrigger>
             <SelectContent>
-              {availableThemes.map((t) => (
-                <SelectItem key={t} value={t}>
-                  {t}
-                </SelectItem>
-              ))}
+              {customThemes.length > 0 ? (
+                <>
+                  <SelectGroup>
+                    <SelectLabel>Custom</SelectLabel>
+                    {customThemes.map((theme) => (
+                      <SelectItem key={theme.id} value={theme.id}>
+                        {theme.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectSeparator />
+                </>
+              ) : null}
+              <SelectGroup>
+                {customThemes.length > 0 ? (
+                  <SelectLabel>Built-in</SelectLabel>
+                ) : null}
+                {availableThemes.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
             </SelectContent>
           </Select>
 
+          <Button
+            variant="outline"
+            size="icon-sm"
+            className="rounded-lg"
+            onClick={handleOpenThemeEditor}
+            title={
+              activeCustomTheme ? "Edit this theme" : "Create a custom theme"
+            }
+          >
+            <Paintbrush className="size-3.5" />
+          </Button>
+
+          <Button
+            variant="outline"
+            size="icon-sm"
+            className={cn(
+              "rounded-lg",
+              showRenderSettings && "bg-accent text-accent-foreground",
+            )}
+            onClick={() => setShowRenderSettings((current) => !current)}
+            title="Layout & typography"
+          >
+            <SlidersHorizontal className="size-3.5" />
+          </Button>
+
+          <Button
+            variant="outline"
+            size="icon-sm"
+            className="rounded-lg"
+            onClick={handleOpenFileClick}
+            title="Open a .mmd, exported .svg or markdown file (or drop/paste one)"
+          >
+            <FolderOpen className="size-3.5" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={OPEN_FILE_ACCEPT}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.currentTarget.files?.[0];
+              event.currentTarget.value = "";
+              if (file) void handleOpenFile(file);
+            }}
+          />
+
           <Button
             variant="outline"
             size="sm"
@@ -1469,9 +5819,7 @@ export function App() {
             variant="outline"
             size="icon-sm"
             className="rounded-lg"
-            onClick={() =>
-              setThemeMode((m) => (m === "dark" ? "light" : "dark"))
-            }
+            onClick={toggleThemeMode}
             title={
               themeMode === "dark"
                 ? "Switch to light mode"
@@ -1489,32 +5837,135 @@ export function App() {
 
       {/* ─── Workspace ─── */}
       <main className="grid min-h-[calc(100vh-8rem)] gap-3 lg:grid-cols-[minmax(340px,420px)_minmax(0,1fr)]">
-        <SourceEditorPanel
-          sourceSeed={sourceSeed}
-          shikiTheme={shikiTheme}
-          onSourceInput={handleSourceInput}
-          onSourceCommit={commitSourceNow}
-          onApplyPreset={handlePresetApplied}
-        />
+        <div className="flex min-w-0 flex-col gap-3">
+          {markdownSession ? (
+            <MarkdownBlocksPanel
+              session={markdownSession}
+              editedSources={markdownEditedSources}
+              activeDocumentId={activeDocumentId}
+              onEditBlock={handleEditMarkdownBlock}
+              onExport={handleExportMarkdown}
+              onClose={() => setMarkdownSession(null)}
+            />
+          ) : null}
+          <DocumentTabs
+            documents={documents}
+            activeDocumentId={activeDocumentId}
+            onSelect={handleSelectDocument}
+            onCreate={handleCreateDocument}
+            onDuplicate={handleDuplicateDocument}
+            onRename={handleRenameDocument}
+            onDelete={handleDeleteDocument}
+          />
+          <DiskFileBar
+            link={activeFileLink}
+            isDirty={
+              activeFileLink !== null &&
+              savedSources[activeFileLink.documentId] !== activeDocumentSource
+            }
+            canSaveInPlace={supportsFileSystemAccess()}
+            onSave={handleSaveFile}
+            onSaveAs={handleSaveFileAs}
+            onToggleAutosave={handleToggleAutosave}
+            onTogglePairedExport={handleTogglePairedExport}
+            onUnlink={handleUnlinkFile}
+          />
+          <SourceEditorPanel
+            key={activeDocumentId ?? "initial"}
+            sourceSeed={sourceSeed}
+            diagnostics={diagnostics}
+            canUndo={canUndoState}
+            canRedo={canRedoState}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            shikiTheme={shikiTheme}
+            onSourceInput={handleSourceInput}
+            onSourceCommit={commitSourceNow}
+            onApplyPreset={handlePresetApplied}
+            revealElement={elementRevealRequest}
+            onLinkedElementsChange={setLinkedElements}
+          />
+        </div>
 
-        <PreviewPanel
-          renderStyle={renderStyle}
-          onRenderStyleChange={setRenderStyle}
-          svgMarkup={svgMarkup}
-          asciiMarkup={asciiMarkup}
-          renderError={renderError}
-          actionMessage={actionMessage}
-          actionError={actionError}
-          isBusy={isBusy}
-          exporting={exporting}
-          pngScale={pngScale}
-          onPngScaleChange={setPngScale}
-          onCopySvg={handleCopySvg}
-          onCopyPng={handleCopyPng}
-          onCopyAscii={handleCopyAscii}
-          onSvgDownload={handleSvgDownload}
-          onPngDownload={handlePngDownload}
-        />
+        <div className="flex min-w-0 flex-col gap-3">
+          {showRenderSettings ? (
+            <RenderSettingsPanel
+              layout={renderLayout}
+              onChange={setRenderLayout}
+              onClose={() => setShowRenderSettings(false)}
+              onError={handleRenderSettingsError}
+            />
+          ) : null}
+          {editingTheme ? (
+            <ThemeEditorPanel
+              theme={editingTheme}
+              isSaved={customThemes.some(
+                (theme) => theme.id === editingTheme.id,
+              )}
+              availableThemes={availableThemes}
+              onChange={setEditingTheme}
+              onSave={handleSaveTheme}
+              onClose={() => setEditingTheme(null)}
+              onDelete={handleDeleteTheme}
+              onExport={handleExportTheme}
+              onImport={handleImportThemes}
+            />
+          ) : null}
+          {showPdfExport ? (
+            <PdfExportPanel
+              settings={pdfSettings}
+              isBusy={isBusy}
+              onChange={setPdfSettings}
+              onExport={handlePdfDownload}
+              onClose={() => setShowPdfExport(false)}
+            />
+          ) : null}
+          {publishSnapshot || exporting === "publish" ? (
+            <PublishSvgPanel
+              snapshot={publishSnapshot}
+              minify={publishMinify}
+              isBusy={isBusy}
+              onMinifyChange={handlePublishMinifyChange}
+              onRefresh={handlePublishSvg}
+              onDownload={handlePublishedSvgDownload}
+              onCopy={handleCopyPublishedSvg}
+              onClose={() => setPublishSnapshot(null)}
+            />
+          ) : null}
+          <PreviewPanel
+            renderStyle={renderStyle}
+            onRenderStyleChange={setRenderStyle}
+            svgMarkup={svgMarkup}
+            asciiMarkup={asciiMarkup}
+            renderError={renderError}
+            isStale={isPreviewStale}
+            renderTiming={renderTiming}
+            actionMessage={actionMessage}
+            actionError={actionError}
+            isBusy={isBusy}
+            exporting={exporting}
+            imageSize={imageSize}
+            rasterOptions={rasterOptions}
+            onRasterOptionsChange={setRasterOptions}
+            exportFrame={exportFrame}
+            onExportFrameChange={setExportFrame}
+            onImageSizeChange={setImageSize}
+            sharedView={sharedView}
+            onViewChange={handleViewChange}
+            onCopySvg={handleCopySvg}
+            onCopyPng={handleCopyPng}
+            onCopyAscii={handleCopyAscii}
+            onCopyHtml={handleCopyHtml}
+            onSvgDownload={handleSvgDownload}
+            onPngDownload={handlePngDownload}
+            onPublishSvg={handlePublishSvg}
+            onPdfExport={() => setShowPdfExport((current) => !current)}
+            linkedElements={linkedElements}
+            onElementClick={handlePreviewElementClick}
+            canEditVisually={isFlowchartPreview}
+            onVisualEdit={handleVisualEdit}
+          />
+        </div>
       </main>
     </div>
   );
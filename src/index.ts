@@ -1,10 +1,18 @@
 import { serve } from "bun";
 import index from "./index.html";
+import { renderApiRoutes } from "./server/render-api";
+import { serveRenderWorker } from "./server/render-worker-bundle";
 
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
+
+    // Off-main-thread renderer used by the editor.
+    "/render-worker.js": serveRenderWorker,
+
+    // Render Mermaid source to SVG or text without a browser.
+    ...renderApiRoutes,
   },
 
   development: process.env.NODE_ENV !== "production" && {
@@ -0,0 +1,39 @@
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+export function parseHexColor(value: string): { r: number; g: number; b: number } | null {
+  const normalized = value.trim().replace(/^#/, "");
+  if (normalized.length === 3) {
+    const r = Number.parseInt(normalized[0]! + normalized[0]!, 16);
+    const g = Number.parseInt(normalized[1]! + normalized[1]!, 16);
+    const b = Number.parseInt(normalized[2]! + normalized[2]!, 16);
+    return Number.isNaN(r) || Number.isNaN(g) || Number.isNaN(b) ? null : { r, g, b };
+  }
+  if (normalized.length === 6) {
+    const r = Number.parseInt(normalized.slice(0, 2), 16);
+    const g = Number.parseInt(normalized.slice(2, 4), 16);
+    const b = Number.parseInt(normalized.slice(4, 6), 16);
+    return Number.isNaN(r) || Number.isNaN(g) || Number.isNaN(b) ? null : { r, g, b };
+  }
+  return null;
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${r.toString(16).padStart(2, "0")}${g.toString(16).padStart(2, "0")}${b.toString(16).padStart(2, "0")}`;
+}
+
+/** `#rrggbb` form of a 3- or 6-digit hex color, or null if it is not one. */
+export function normalizeHexColor(value: string): string | null {
+  const rgb = parseHexColor(value);
+  return rgb ? toHex(rgb) : null;
+}
+
+export function mixHexColors(foreground: string, background: string, foregroundPercent: number): string {
+  const fg = parseHexColor(foreground);
+  const bg = parseHexColor(background);
+  if (!fg || !bg) return foreground;
+  const weight = clampPercent(foregroundPercent) / 100;
+  const mixChannel = (a: number, b: number) => Math.round(a * weight + b * (1 - weight));
+  return toHex({ r: mixChannel(fg.r, bg.r), g: mixChannel(fg.g, bg.g), b: mixChannel(fg.b, bg.b) });
+}
@@ -0,0 +1,519 @@
+export type DiagramKind = "flowchart" | "sequence" | "state" | "class" | "er";
+
+export type CompletionKind = "keyword" | "node" | "arrow" | "participant" | "member" | "cardinality" | "snippet";
+
+export type CompletionItem = {
+  label: string;
+  kind: CompletionKind;
+  /** Text to insert; snippets may hold `${1:placeholder}` tab stops (see `expandSnippet`). */
+  insertText: string;
+  detail?: string;
+};
+
+export type CompletionResult = {
+  items: CompletionItem[];
+  /** The range of the source that the chosen item replaces. */
+  from: number;
+  to: number;
+};
+
+const DIAGRAM_HEADERS: readonly { pattern: RegExp; kind: DiagramKind }[] = [
+  { pattern: /^(?:flowchart|graph)\b/, kind: "flowchart" },
+  { pattern: /^sequenceDiagram\b/, kind: "sequence" },
+  { pattern: /^stateDiagram(?:-v2)?\b/, kind: "state" },
+  { pattern: /^classDiagram\b/, kind: "class" },
+  { pattern: /^erDiagram\b/, kind: "er" },
+];
+
+const HEADER_ITEMS: CompletionItem[] = [
+  { label: "flowchart TD", kind: "keyword", insertText: "flowchart TD", detail: "Flowchart, top down" },
+  { label: "flowchart LR", kind: "keyword", insertText: "flowchart LR", detail: "Flowchart, left to right" },
+  { label: "graph TD", kind: "keyword", insertText: "graph TD", detail: "Flowchart, top down" },
+  { label: "sequenceDiagram", kind: "keyword", insertText: "sequenceDiagram" },
+  { label: "stateDiagram-v2", kind: "keyword", insertText: "stateDiagram-v2" },
+  { label: "classDiagram", kind: "keyword", insertText: "classDiagram" },
+  { label: "erDiagram", kind: "keyword", insertText: "erDiagram" },
+];
+
+const DIRECTIONS = ["TD", "TB", "BT", "LR", "RL"];
+
+function keywords(labels: readonly string[]): CompletionItem[] {
+  return labels.map(label => ({ label, kind: "keyword", insertText: label }));
+}
+
+function arrows(entries: readonly (readonly [string, string])[]): CompletionItem[] {
+  return entries.map(([label, detail]) => ({ label, kind: "arrow", insertText: label, detail }));
+}
+
+function snippets(entries: readonly (readonly [string, string])[]): CompletionItem[] {
+  return entries.map(([label, insertText]) => ({ label, kind: "snippet", insertText }));
+}
+
+const FLOWCHART_KEYWORDS = keywords(["subgraph", "end", "direction", "classDef", "class", "style", "linkStyle"]);
+
+const FLOWCHART_ARROWS: CompletionItem[] = [
+  ...arrows([
+    ["-->", "arrow"],
+    ["---", "open link"],
+    ["-.->", "dotted arrow"],
+    ["-.-", "dotted link"],
+    ["==>", "thick arrow"],
+    ["===", "thick link"],
+    ["--o", "circle end"],
+    ["--x", "cross end"],
+    ["<-->", "arrows both ways"],
+    ["~~~", "invisible link"],
+  ]),
+  { label: "-->|text|", kind: "arrow", insertText: "-->|${1:text}| ", detail: "arrow with label" },
+  { label: "-- text -->", kind: "arrow", insertText: "-- ${1:text} --> ", detail: "arrow with label" },
+];
+
+const FLOWCHART_SHAPES = snippets([
+  ["id[Rectangle]", "${1:id}[${2:Label}]"],
+  ["id(Rounded)", "${1:id}(${2:Label})"],
+  ["id([Stadium])", "${1:id}([${2:Label}])"],
+  ["id[[Subroutine]]", "${1:id}[[${2:Label}]]"],
+  ["id[(Database)]", "${1:id}[(${2:Label})]"],
+  ["id((Circle))", "${1:id}((${2:Label}))"],
+  ["id>Flag]", "${1:id}>${2:Label}]"],
+  ["id{Decision}", "${1:id}{${2:Label}}"],
+  ["id{{Hexagon}}", "${1:id}{{${2:Label}}}"],
+  ["id[/Parallelogram/]", "${1:id}[/${2:Label}/]"],
+  ["id[/Trapezoid\\]", "${1:id}[/${2:Label}\\]"],
+]);
+
+const FLOWCHART_SNIPPETS = snippets([
+  ["A --> B", "${1:A}[${2:Start}] --> ${3:B}[${4:Next}]"],
+  ["decision", "${1:check}{${2:Condition?}} -->|${3:Yes}| ${4:A}"],
+  ["subgraph", "subgraph ${1:title}\n  $0\nend"],
+  ["classDef", "classDef ${1:name} fill:${2:#f9f},stroke:${3:#333}"],
+]);
+
+const SEQUENCE_KEYWORDS = keywords([
+  "participant",
+  "actor",
+  "Note",
+  "loop",
+  "alt",
+  "else",
+  "opt",
+  "par",
+  "and",
+  "critical",
+  "break",
+  "rect",
+  "end",
+  "activate",
+  "deactivate",
+  "autonumber",
+]);
+
+const SEQUENCE_ARROWS = arrows([
+  ["->>", "solid line, arrowhead"],
+  ["-->>", "dotted line, arrowhead"],
+  ["->", "solid line"],
+  ["-->", "dotted line"],
+  ["-x", "solid line, cross"],
+  ["--x", "dotted line, cross"],
+  ["-)", "solid line, async"],
+  ["--)", "dotted line, async"],
+]);
+
+const SEQUENCE_SNIPPETS = snippets([
+  ["message", "${1:Alice}->>${2:Bob}: ${3:Hello}"],
+  ["participant as", "participant ${1:A} as ${2:Alice}"],
+  ["note", "Note right of ${1:Alice}: ${2:text}"],
+  ["loop", "loop ${1:Every minute}\n  $0\nend"],
+  ["alt", "alt ${1:success}\n  $2\nelse ${3:failure}\n  $0\nend"],
+  ["opt", "opt ${1:condition}\n  $0\nend"],
+  ["par", "par ${1:first}\n  $2\nand ${3:second}\n  $0\nend"],
+]);
+
+const STATE_KEYWORDS = keywords(["state", "note", "end note", "direction", "[*]"]);
+
+const STATE_SNIPPETS = snippets([
+  ["A --> B", "${1:Idle} --> ${2:Active}"],
+  ["[*] --> start", "[*] --> ${1:Idle}"],
+  ["end --> [*]", "${1:Done} --> [*]"],
+  ["composite state", "state ${1:Name} {\n  [*] --> ${2:Inner}\n  $0\n}"],
+  ["choice", "state ${1:check} <<choice>>"],
+  ["note", "note right of ${1:State}\n  ${2:text}\nend note"],
+]);
+
+const CLASS_KEYWORDS = keywords(["class", "note", "direction", "namespace"]);
+
+const CLASS_ARROWS = arrows([
+  ["<|--", "inheritance"],
+  ["*--", "composition"],
+  ["o--", "aggregation"],
+  ["-->", "association"],
+  ["--", "link"],
+  ["..>", "dependency"],
+  ["..|>", "realization"],
+  ["..", "dashed link"],
+]);
+
+const CLASS_SNIPPETS = snippets([
+  ["class { }", "class ${1:Name} {\n  +${2:field}: ${3:Type}\n  +${4:method}() ${5:void}\n}"],
+  ["A <|-- B", "${1:Base} <|-- ${2:Derived}"],
+  ["relation with label", '${1:A} "${2:1}" --> "${3:*}" ${4:B} : ${5:has}'],
+  ["annotation", "<<${1:interface}>> ${2:Name}"],
+]);
+
+const MEMBER_SNIPPETS: CompletionItem[] = [
+  { label: "+field: Type", kind: "snippet", insertText: "+${1:name}: ${2:Type}", detail: "field" },
+  { label: "+method() Type", kind: "snippet", insertText: "+${1:method}(${2}) ${3:void}", detail: "method" },
+];
+
+const ER_SNIPPETS = snippets([
+  ["relationship", "${1:CUSTOMER} ||--o{ ${2:ORDER} : ${3:places}"],
+  ["entity { }", "${1:ENTITY} {\n  ${2:string} ${3:id} PK\n  $0\n}"],
+]);
+
+const ER_ATTRIBUTE_TYPES = keywords(["string", "int", "float", "boolean", "date", "datetime", "uuid"]);
+const ER_KEYS = keywords(["PK", "FK", "UK"]);
+
+const ER_LEFT_ENDS = [
+  ["|o", "zero or one"],
+  ["||", "exactly one"],
+  ["}o", "zero or more"],
+  ["}|", "one or more"],
+] as const;
+const ER_RIGHT_ENDS = [
+  ["o|", "zero or one"],
+  ["||", "exactly one"],
+  ["o{", "zero or more"],
+  ["|{", "one or more"],
+] as const;
+
+/** Every ER cardinality pair, identifying (`--`) first, then non-identifying (`..`). */
+const ER_CARDINALITIES: CompletionItem[] = ["--", ".."].flatMap(line =>
+  ER_LEFT_ENDS.flatMap(([left, leftDetail]) =>
+    ER_RIGHT_ENDS.map(([right, rightDetail]) => ({
+      label: `${left}${line}${right}`,
+      kind: "cardinality" as const,
+      insertText: `${left}${line}${right}`,
+      detail: `${leftDetail} to ${rightDetail}${line === ".." ? ", non-identifying" : ""}`,
+    })),
+  ),
+);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+function stripComment(line: string): string {
+  const index = line.indexOf("%%");
+  return index === -1 ? line : line.slice(0, index);
+}
+
+/** Index of the diagram header line, skipping blank lines, comments and front matter. */
+function findHeaderIndex(lines: readonly string[]): number {
+  let index = 0;
+  if (lines[0]?.trim() === "---") {
+    index = lines.indexOf("---", 1) + 1 || lines.length;
+  }
+  while (index < lines.length && !stripComment(lines[index]!).trim()) index++;
+  return index;
+}
+
+export function detectDiagramKind(source: string): DiagramKind | null {
+  const lines = source.split("\n");
+  const header = lines[findHeaderIndex(lines)]?.trim() ?? "";
+  return DIAGRAM_HEADERS.find(({ pattern }) => pattern.test(header))?.kind ?? null;
+}
+
+function addIdentifier(target: Set<string>, value: string | undefined, reserved: ReadonlySet<string>): void {
+  if (value && IDENTIFIER_PATTERN.test(value) && !reserved.has(value)) target.add(value);
+}
+
+const FLOWCHART_RESERVED = new Set([...FLOWCHART_KEYWORDS.map(item => item.label), "flowchart", "graph", "click"]);
+
+function collectFlowchartNodes(lines: readonly string[]): string[] {
+  const nodes = new Set<string>();
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trim();
+    if (/^(?:flowchart|graph|classDef|class|style|linkStyle|click|direction)\b/.test(line)) continue;
+    const subgraph = /^subgraph\s+([\w-]+)/.exec(line);
+    if (subgraph) {
+      addIdentifier(nodes, subgraph[1], FLOWCHART_RESERVED);
+      continue;
+    }
+    const withoutLabels = line
+      .replace(/"[^"]*"/g, " ")
+      .replace(/:::[\w-]+/g, " ")
+      .replace(/\|[^|]*\|/g, " ")
+      .replace(/(\w)>[^\]]*\]/g, "$1 ")
+      .replace(/[[({][\s\S]*?[\])}]+/g, " ")
+      .replace(/<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?/g, " ");
+    for (const token of withoutLabels.split(/[\s&;]+/)) addIdentifier(nodes, token, FLOWCHART_RESERVED);
+  }
+  return [...nodes];
+}
+
+const SEQUENCE_ARROW_PATTERN = /--?(?:>>|>|x|\))/;
+
+function collectSequenceParticipants(lines: readonly string[]): string[] {
+  const participants = new Set<string>();
+  const reserved = new Set<string>();
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trim();
+    const declared = /^(?:participant|actor)\s+([^\s]+)/.exec(line);
+    if (declared) {
+      addIdentifier(participants, declared[1], reserved);
+      continue;
+    }
+    const message = new RegExp(`^([\\w.-]+?)\\s*${SEQUENCE_ARROW_PATTERN.source}\\s*[+-]?\\s*([\\w.-]+)`).exec(line);
+    if (message) {
+      addIdentifier(participants, message[1], reserved);
+      addIdentifier(participants, message[2], reserved);
+    }
+  }
+  return [...participants];
+}
+
+const STATE_RESERVED = new Set(["state", "note", "end", "direction", "as", "stateDiagram", "stateDiagram-v2"]);
+
+function collectStates(lines: readonly string[]): string[] {
+  const states = new Set<string>();
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trim();
+    if (/^(?:note|direction)\b/.test(line)) continue;
+    const declared = /^state\s+(?:"[^"]*"\s+as\s+)?([\w-]+)/.exec(line);
+    if (declared) {
+      addIdentifier(states, declared[1], STATE_RESERVED);
+      continue;
+    }
+    const transition = /^([\w-]+|\[\*\])\s*-->\s*([\w-]+|\[\*\])/.exec(line);
+    if (transition) {
+      addIdentifier(states, transition[1], STATE_RESERVED);
+      addIdentifier(states, transition[2], STATE_RESERVED);
+      continue;
+    }
+    addIdentifier(states, /^([\w-]+)\s*:/.exec(line)?.[1], STATE_RESERVED);
+  }
+  return [...states];
+}
+
+const CLASS_RELATION_PATTERN =
+  /^([\w-]+)\s*(?:"[^"]*"\s*)?(?:<\|--|\*--|o--|-->|--|\.\.>|\.\.\|>|\.\.|--\*|--o|--\|>|<\.\.|<\|\.\.)\s*(?:"[^"]*"\s*)?([\w-]+)/;
+const CLASS_RESERVED = new Set(["class", "note", "direction", "namespace", "classDiagram"]);
+
+/** Class names mapped to the members declared for them, in body blocks or `Name : member` lines. */
+function collectClasses(lines: readonly string[]): Map<string, string[]> {
+  const classes = new Map<string, string[]>();
+  const ensure = (name: string | undefined) => {
+    if (name && IDENTIFIER_PATTERN.test(name) && !CLASS_RESERVED.has(name) && !classes.has(name)) {
+      classes.set(name, []);
+    }
+    return name ? classes.get(name) : undefined;
+  };
+  let body: string[] | undefined;
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trim();
+    if (body) {
+      if (line.startsWith("}")) body = undefined;
+      else if (line) body.push(line);
+      continue;
+    }
+    const declared = /^class\s+([\w-]+)(?:~[^~]*~)?\s*(\{)?/.exec(line);
+    if (declared) {
+      const members = ensure(declared[1]);
+      if (declared[2]) body = members;
+      continue;
+    }
+    const relation = CLASS_RELATION_PATTERN.exec(line);
+    if (relation) {
+      ensure(relation[1]);
+      ensure(relation[2]);
+      continue;
+    }
+    const member = /^([\w-]+)\s*:\s*(.+)$/.exec(line);
+    if (member) ensure(member[1])?.push(member[2]!.trim());
+  }
+  return classes;
+}
+
+function collectErEntities(lines: readonly string[]): string[] {
+  const entities = new Set<string>();
+  const reserved = new Set(["erDiagram"]);
+  let inBody = false;
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trim();
+    if (inBody) {
+      if (line.startsWith("}")) inBody = false;
+      continue;
+    }
+    const block = /^([\w-]+)\s*\{/.exec(line);
+    if (block) {
+      addIdentifier(entities, block[1], reserved);
+      inBody = true;
+      continue;
+    }
+    const relation = /^([\w-]+)\s*[|}][|o][-.]{2}[|o][|{]\s*([\w-]+)/.exec(line);
+    if (relation) {
+      addIdentifier(entities, relation[1], reserved);
+      addIdentifier(entities, relation[2], reserved);
+    }
+  }
+  return [...entities];
+}
+
+function nameItems(names: readonly string[], kind: CompletionKind, detail?: string): CompletionItem[] {
+  return names.map(name => ({ label: name, kind, insertText: name, detail }));
+}
+
+/** Whether the caret line sits inside a `{ ... }` block that opened on an earlier line. */
+function findOpenBlock(lines: readonly string[], lineIndex: number): string | null {
+  for (let index = lineIndex - 1; index >= 0; index--) {
+    const line = stripComment(lines[index]!).trim();
+    if (line.startsWith("}")) return null;
+    if (line.endsWith("{")) return line;
+  }
+  return null;
+}
+
+type LineContext = {
+  /** Text on the caret line before the word being completed. */
+  head: string;
+  /** The partial word or operator before the caret. */
+  prefix: string;
+  lines: string[];
+  lineIndex: number;
+};
+
+function completeFlowchart({ head, prefix, lines }: LineContext): CompletionItem[] {
+  const trimmed = head.trim();
+  if (/^(?:flowchart|graph|direction)$/.test(trimmed)) return keywords(DIRECTIONS);
+  if (/^(?:classDef|style|linkStyle|click)\b/.test(trimmed)) return [];
+  const nodes = nameItems(collectFlowchartNodes(lines), "node");
+  if (!trimmed) return [...nodes, ...FLOWCHART_KEYWORDS, ...FLOWCHART_SNIPPETS, ...FLOWCHART_SHAPES];
+  // Right after an arrow (or its label) comes the target node.
+  if (/(?:-->|---|-\.->|-\.-|==>|===|--[ox]|~~~|\|[^|]*\|)\s*$/.test(head) && !/^[-=.<>~]/.test(prefix)) {
+    return [...nodes, ...FLOWCHART_SHAPES];
+  }
+  if (/[\w\])}>]\s*$/.test(head) || /^[-=.<>~]+$/.test(prefix)) return FLOWCHART_ARROWS;
+  return [];
+}
+
+function completeSequence({ head, prefix, lines }: LineContext): CompletionItem[] {
+  const trimmed = head.trim();
+  const participants = nameItems(collectSequenceParticipants(lines), "participant");
+  if (!trimmed) return [...SEQUENCE_KEYWORDS, ...participants, ...SEQUENCE_SNIPPETS];
+  if (/^Note$/i.test(trimmed)) return keywords(["right of", "left of", "over"]);
+  if (/^Note\s+(?:right of|left of|over)(?:\s+[\w.-]+\s*,)?$/i.test(trimmed)) return participants;
+  if (/^(?:activate|deactivate)$/.test(trimmed)) return participants;
+  if (/^(?:participant|actor|loop|alt|else|opt|par|and|critical|break|rect|autonumber)\b/.test(trimmed)) return [];
+  if (new RegExp(`^[\\w.-]+\\s*${SEQUENCE_ARROW_PATTERN.source}\\s*[+-]?$`).test(trimmed)) return participants;
+  if (/^[\w.-]+$/.test(trimmed) || /^[-x>)]+$/.test(prefix)) return SEQUENCE_ARROWS;
+  return [];
+}
+
+function completeState({ head, lines }: LineContext): CompletionItem[] {
+  const trimmed = head.trim();
+  const states = nameItems(collectStates(lines), "node");
+  if (!trimmed) return [...states, ...STATE_KEYWORDS, ...STATE_SNIPPETS];
+  if (trimmed === "direction") return keywords(DIRECTIONS);
+  if (/^note$/.test(trimmed)) return keywords(["right of", "left of"]);
+  if (/^note\s+(?:right|left) of$/.test(trimmed)) return states;
+  if (/-->$/.test(trimmed)) return [...states, ...keywords(["[*]"])];
+  if (/^(?:[\w-]+|\[\*\])$/.test(trimmed)) return arrows([["-->", "transition"]]);
+  return [];
+}
+
+function completeClass({ head, lines, lineIndex }: LineContext): CompletionItem[] {
+  const trimmed = head.trim();
+  const classes = collectClasses(lines);
+  const classNames = nameItems([...classes.keys()], "node");
+  if (findOpenBlock(lines, lineIndex)?.startsWith("class ")) {
+    return trimmed ? [] : [...MEMBER_SNIPPETS, ...classNames];
+  }
+  if (!trimmed) return [...CLASS_KEYWORDS, ...classNames, ...CLASS_SNIPPETS];
+  if (trimmed === "direction") return keywords(DIRECTIONS);
+  const memberOf = /^([\w-]+)\s*:$/.exec(trimmed);
+  if (memberOf) {
+    const members = classes.get(memberOf[1]!) ?? [];
+    return [...nameItems(members, "member", memberOf[1]), ...MEMBER_SNIPPETS];
+  }
+  if (/(?:<\|--|\*--|o--|-->|--|\.\.>|\.\.\|>|\.\.)\s*(?:"[^"]*"\s*)?$/.test(trimmed)) return classNames;
+  if (/^[\w-]+(?:\s*"[^"]*")?$/.test(trimmed) && !CLASS_RESERVED.has(trimmed)) return CLASS_ARROWS;
+  return [];
+}
+
+function completeEr({ head, prefix, lines, lineIndex }: LineContext): CompletionItem[] {
+  const trimmed = head.trim();
+  const entities = nameItems(collectErEntities(lines), "node");
+  if (findOpenBlock(lines, lineIndex)) {
+    if (!trimmed) return ER_ATTRIBUTE_TYPES;
+    return /^[\w-]+\s+[\w-]+$/.test(trimmed) ? ER_KEYS : [];
+  }
+  if (!trimmed) return [...entities, ...ER_SNIPPETS];
+  if (/[|}][|o][-.]{2}[|o][|{]$/.test(trimmed)) return entities;
+  if (/^[\w-]+$/.test(trimmed) || /^[|}o.{-]+$/.test(prefix)) return ER_CARDINALITIES;
+  return [];
+}
+
+const COMPLETERS: Record<DiagramKind, (context: LineContext) => CompletionItem[]> = {
+  flowchart: completeFlowchart,
+  sequence: completeSequence,
+  state: completeState,
+  class: completeClass,
+  er: completeEr,
+};
+
+/**
+ * Items starting with `prefix` first, then names and keywords containing it;
+ * exact matches are dropped.
+ */
+export function filterCompletions(items: readonly CompletionItem[], prefix: string): CompletionItem[] {
+  const needle = prefix.toLowerCase();
+  const seen = new Set<string>();
+  const starts: CompletionItem[] = [];
+  const contains: CompletionItem[] = [];
+  for (const item of items) {
+    const key = `${item.kind}:${item.label}`;
+    const label = item.label.toLowerCase();
+    if (seen.has(key) || label === needle) continue;
+    seen.add(key);
+    if (label.startsWith(needle)) starts.push(item);
+    else if (needle && item.kind !== "snippet" && label.includes(needle)) contains.push(item);
+  }
+  return [...starts, ...contains];
+}
+
+/**
+ * Completions for the caret position: the diagram header on the first
+ * line, then keywords, declared names, arrow forms and snippets depending
+ * on the diagram type and what precedes the caret on its line.
+ */
+export function getCompletions(source: string, caret: number): CompletionResult | null {
+  const lineStart = source.lastIndexOf("\n", caret - 1) + 1;
+  const before = source.slice(lineStart, caret);
+  if (before.includes("%%")) return null;
+
+  // Operators complete as a whole, so `--` offers every arrow that starts with it.
+  const operator = /[-=.<>~|}{ox*)]+$/.exec(before)?.[0] ?? "";
+  const word = /[A-Za-z_]\w*$/.exec(before)?.[0] ?? "";
+  const isOperator = operator.length > 0 && !/^[ox]+$/.test(operator) && !word.endsWith(operator);
+  const prefix = isOperator ? operator : word;
+  const from = caret - prefix.length;
+  const after = isOperator ? "" : (/^\w*/.exec(source.slice(caret))?.[0] ?? "");
+  const to = caret + after.length;
+
+  const lines = source.split("\n");
+  const lineIndex = source.slice(0, lineStart).split("\n").length - 1;
+  const headerIndex = findHeaderIndex(lines);
+  const kind = detectDiagramKind(source);
+
+  let items: CompletionItem[];
+  if (lineIndex <= headerIndex) {
+    items = before.trim() && !/^[\w-]*$/.test(before.trim()) ? [] : HEADER_ITEMS;
+    if (/^(?:flowchart|graph)\s+\w*$/.test(before.trimStart())) items = keywords(DIRECTIONS);
+  } else if (kind) {
+    const context: LineContext = { head: before.slice(0, before.length - prefix.length), prefix, lines, lineIndex };
+    items = COMPLETERS[kind](context);
+  } else {
+    items = [];
+  }
+
+  const filtered = filterCompletions(items, prefix);
+  return filtered.length > 0 ? { items: filtered, from, to } : null;
+}
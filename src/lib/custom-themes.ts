@@ -0,0 +1,96 @@
+import type { DiagramColors, ThemeName } from "beautiful-mermaid";
+import { parseHexColor } from "./color";
+import { isThemeName, resolveThemeColors, type ThemeColorKey } from "./render";
+
+/** Custom theme ids share the theme picker with built-in names, so they carry a prefix. */
+export const CUSTOM_THEME_PREFIX = "custom:";
+
+export const THEME_COLOR_KEYS: readonly ThemeColorKey[] = ["bg", "fg", "line", "accent", "muted", "surface", "border"];
+
+/** A user-defined palette, saved locally and shared as JSON. */
+export type CustomTheme = {
+  id: string;
+  name: string;
+  /** Built-in theme the palette started from; also picks the editor highlighting. */
+  base: ThemeName;
+  colors: DiagramColors;
+};
+
+/** Thrown when imported theme JSON cannot be used. */
+export class ThemeImportError extends Error {}
+
+function createThemeId(): string {
+  const suffix =
+    typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${CUSTOM_THEME_PREFIX}${suffix}`;
+}
+
+export function isCustomThemeId(value: string): boolean {
+  return value.startsWith(CUSTOM_THEME_PREFIX);
+}
+
+export function createCustomTheme(base: ThemeName, name: string): CustomTheme {
+  return { id: createThemeId(), name, base, colors: { ...resolveThemeColors(base) } };
+}
+
+function parseColors(value: unknown): DiagramColors {
+  if (!value || typeof value !== "object") {
+    throw new ThemeImportError("Theme is missing its colors.");
+  }
+  const record = value as Record<string, unknown>;
+  const colors: Partial<DiagramColors> = {};
+  for (const key of THEME_COLOR_KEYS) {
+    const color = record[key];
+    if (color === undefined || color === null || color === "") continue;
+    if (typeof color !== "string" || !parseHexColor(color)) {
+      throw new ThemeImportError(`"${key}" must be a hex color.`);
+    }
+    colors[key] = color;
+  }
+  if (!colors.bg || !colors.fg) {
+    throw new ThemeImportError('Theme colors need at least "bg" and "fg".');
+  }
+  return colors as DiagramColors;
+}
+
+function parseCustomTheme(value: unknown): CustomTheme {
+  if (!value || typeof value !== "object") {
+    throw new ThemeImportError("Theme must be a JSON object.");
+  }
+  const record = value as Record<string, unknown>;
+  const name = typeof record.name === "string" ? record.name.trim() : "";
+  if (!name) throw new ThemeImportError("Theme is missing a name.");
+  const base = typeof record.base === "string" && isThemeName(record.base) ? record.base : "github-light";
+  const id = typeof record.id === "string" && isCustomThemeId(record.id) ? record.id : createThemeId();
+  return { id, name, base, colors: parseColors(record.colors) };
+}
+
+/** Parse exported theme JSON: one theme object or an array of them. */
+export function parseCustomThemesJson(text: string): CustomTheme[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ThemeImportError("File is not valid JSON.");
+  }
+  const themes = (Array.isArray(value) ? value : [value]).map(parseCustomTheme);
+  if (themes.length === 0) throw new ThemeImportError("File contains no themes.");
+  return themes;
+}
+
+export function serializeCustomTheme(theme: CustomTheme): string {
+  return `${JSON.stringify(theme, null, 2)}\n`;
+}
+
+/** Stored themes that still parse; anything else is dropped. */
+export function sanitizeCustomThemes(values: readonly unknown[]): CustomTheme[] {
+  return values.flatMap(value => {
+    try {
+      return [parseCustomTheme(value)];
+    } catch {
+      return [];
+    }
+  });
+}
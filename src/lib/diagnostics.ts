@@ -0,0 +1,70 @@
+/** Where a render error points in the source, 1-based. */
+export type ErrorLocation = { line: number; column: number };
+
+function findHeaderLine(lines: string[]): number {
+  const index = lines.findIndex(line => {
+    const trimmed = line.trim();
+    return trimmed.length > 0 && !trimmed.startsWith("%%");
+  });
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Map a beautiful-mermaid error message back to a source position. The
+ * renderer rarely reports positions, so this falls back to the line quoted
+ * in the message and then to the diagram header.
+ */
+export function locateRenderError(source: string, message: string): ErrorLocation {
+  const lines = source.split("\n");
+
+  const explicit = /\bline (\d+)(?:,? col(?:umn)? (\d+))?/i.exec(message);
+  if (explicit) {
+    const line = Math.min(Math.max(1, Number(explicit[1])), lines.length);
+    return { line, column: explicit[2] ? Math.max(1, Number(explicit[2])) : 1 };
+  }
+
+  const quoted = /"([^"]+)"/.exec(message)?.[1];
+  if (quoted) {
+    const index = lines.findIndex(line => line.includes(quoted));
+    if (index !== -1) {
+      return { line: index + 1, column: lines[index]!.indexOf(quoted) + 1 };
+    }
+  }
+
+  const headerIndex = findHeaderLine(lines);
+  const header = lines[headerIndex] ?? "";
+  return { line: headerIndex + 1, column: header.length - header.trimStart().length + 1 };
+}
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/** A problem anchored to a source range; columns are 1-based, `endColumn` exclusive. */
+export type Diagnostic = ErrorLocation & {
+  endColumn: number;
+  message: string;
+  severity: DiagnosticSeverity;
+};
+
+/**
+ * Turn a render error into a diagnostic. The range covers the snippet quoted
+ * in the message when it sits at the located column, otherwise the rest of
+ * the line.
+ */
+export function getRenderDiagnostic(source: string, message: string): Diagnostic {
+  const { line, column } = locateRenderError(source, message);
+  const text = source.split("\n")[line - 1] ?? "";
+  const quoted = /"([^"]+)"/.exec(message)?.[1];
+  const endColumn = quoted && text.startsWith(quoted, column - 1) ? column + quoted.length : text.trimEnd().length + 1;
+  return { line, column, endColumn: Math.max(endColumn, column + 1), message, severity: "error" };
+}
+
+/** Offset of a 1-based line/column in `source`, clamped to the text. */
+export function getDiagnosticOffset(source: string, { line, column }: ErrorLocation): number {
+  const lines = source.split("\n");
+  let offset = 0;
+  for (let index = 0; index < Math.min(line - 1, lines.length - 1); index++) {
+    offset += lines[index]!.length + 1;
+  }
+  const text = lines[Math.min(line, lines.length) - 1] ?? "";
+  return offset + Math.min(Math.max(0, column - 1), text.length);
+}
@@ -0,0 +1,141 @@
+/** Files a document can be saved to: the diagram source and its paired exports. */
+export type SaveFileKind = "mermaid" | "svg" | "png";
+
+export const PAIRED_EXPORT_KINDS = ["svg", "png"] as const;
+export type PairedExportKind = (typeof PAIRED_EXPORT_KINDS)[number];
+
+/**
+ * Where a document lives on disk. Handles survive reloads in IndexedDB, but
+ * the browser asks for write permission again in each new session.
+ */
+export type DocumentFileLink = {
+  documentId: string;
+  file: FileSystemFileHandle;
+  /** Rewritten with the current render on every save, when set. */
+  svg?: FileSystemFileHandle;
+  png?: FileSystemFileHandle;
+  /** Save the source whenever it changes, without Ctrl+S. */
+  autosave: boolean;
+};
+
+type FilePickerAcceptType = { description: string; accept: Record<string, string[]> };
+
+type FilePickerWindow = Window & {
+  showOpenFilePicker?: (options: {
+    types?: FilePickerAcceptType[];
+    excludeAcceptAllOption?: boolean;
+    multiple?: boolean;
+  }) => Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: FilePickerAcceptType[];
+    startIn?: FileSystemHandle;
+  }) => Promise<FileSystemFileHandle>;
+};
+
+/** Permission methods Chromium adds to handles; not in the DOM typings yet. */
+type PermissionedHandle = FileSystemFileHandle & {
+  queryPermission?: (descriptor: { mode: "readwrite" }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: "readwrite" }) => Promise<PermissionState>;
+};
+
+const SAVE_FILE_TYPES: Record<SaveFileKind, FilePickerAcceptType> = {
+  mermaid: { description: "Mermaid diagram", accept: { "text/plain": [".mmd", ".mermaid"] } },
+  svg: { description: "SVG image", accept: { "image/svg+xml": [".svg"] } },
+  png: { description: "PNG image", accept: { "image/png": [".png"] } },
+};
+
+const OPEN_FILE_TYPES: FilePickerAcceptType[] = [
+  {
+    description: "Diagrams and markdown",
+    accept: {
+      "text/plain": [".mmd", ".mermaid", ".txt"],
+      "image/svg+xml": [".svg"],
+      "text/markdown": [".md", ".markdown", ".mdx"],
+    },
+  },
+];
+
+export const SAVE_FILE_EXTENSIONS: Record<SaveFileKind, string> = {
+  mermaid: "mmd",
+  svg: "svg",
+  png: "png",
+};
+
+function getPickerWindow(): FilePickerWindow | null {
+  return typeof window === "undefined" ? null : (window as FilePickerWindow);
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** Whether the browser can open and overwrite files in place (Chromium only, for now). */
+export function supportsFileSystemAccess(): boolean {
+  const pickerWindow = getPickerWindow();
+  return (
+    typeof pickerWindow?.showOpenFilePicker === "function" && typeof pickerWindow.showSaveFilePicker === "function"
+  );
+}
+
+/** Ask for a diagram, SVG or markdown file; null if the picker was dismissed. */
+export async function pickFileToOpen(): Promise<FileSystemFileHandle | null> {
+  const picker = getPickerWindow()?.showOpenFilePicker;
+  if (!picker) throw new Error("Opening files in place is not supported in this browser.");
+  try {
+    const [handle] = await picker({ types: OPEN_FILE_TYPES, multiple: false });
+    return handle ?? null;
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Ask where to save a file of `kind`; null if the picker was dismissed.
+ * `startIn` opens the picker next to a file the document already uses.
+ */
+export async function pickFileToSave(
+  suggestedName: string,
+  kind: SaveFileKind,
+  startIn?: FileSystemHandle,
+): Promise<FileSystemFileHandle | null> {
+  const picker = getPickerWindow()?.showSaveFilePicker;
+  if (!picker) throw new Error("Saving files in place is not supported in this browser.");
+  try {
+    return await picker({ suggestedName, types: [SAVE_FILE_TYPES[kind]], startIn });
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether `handle` can be written without prompting. Autosave checks this
+ * first, since permission can only be requested from a user gesture.
+ */
+export async function canWriteFileHandle(handle: FileSystemFileHandle): Promise<boolean> {
+  const { queryPermission } = handle as PermissionedHandle;
+  if (!queryPermission) return true;
+  return (await queryPermission.call(handle, { mode: "readwrite" })) === "granted";
+}
+
+/** Replace the file's contents, asking for write permission if this session has none yet. */
+export async function writeFileHandle(handle: FileSystemFileHandle, contents: Blob | string): Promise<void> {
+  const { requestPermission } = handle as PermissionedHandle;
+  if (
+    !(await canWriteFileHandle(handle)) &&
+    requestPermission &&
+    (await requestPermission.call(handle, { mode: "readwrite" })) !== "granted"
+  ) {
+    throw new Error(`Permission to write ${handle.name} was not granted.`);
+  }
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(contents);
+  } catch (error) {
+    await writable.abort().catch(() => {});
+    throw error;
+  }
+  await writable.close();
+}
@@ -0,0 +1,214 @@
+import { type FlowchartNodeMention, type FlowchartStatement, listFlowchartStatements } from "./source-map";
+import type { TextRange } from "./snippets";
+
+/** A change made by pointing at the flowchart preview, to be written back to the source. */
+export type FlowchartEdit =
+  | { kind: "rename"; id: string; label: string }
+  | { kind: "connect"; from: string; to: string }
+  /** A new node, connected from `from` when given. */
+  | { kind: "add-node"; from?: string }
+  | { kind: "remove-node"; id: string };
+
+type SourceChange = TextRange & { text: string };
+
+const NEW_NODE_LABEL = "New node";
+
+function applyChanges(source: string, changes: readonly SourceChange[]): string {
+  let result = source;
+  for (const change of [...changes].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, change.start) + change.text + result.slice(change.end);
+  }
+  return result;
+}
+
+function findMentions(statements: readonly FlowchartStatement[], id: string): FlowchartNodeMention[] {
+  return statements.flatMap(({ groups }) => groups.flat().filter(mention => mention.id === id));
+}
+
+/** The whitespace between the start of the line holding `offset` and `offset`. */
+function getLineIndent(source: string, offset: number): string {
+  const lineStart = source.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*/.exec(source.slice(lineStart, offset))![0];
+}
+
+/** Indentation of top-level statements, taken from the first line after the diagram header. */
+function getTopLevelIndent(source: string): string {
+  const lines = source.split("\n").filter(line => line.trim() && !line.trim().startsWith("%%"));
+  const first = lines[1];
+  return first === undefined ? "  " : /^[ \t]*/.exec(first)![0];
+}
+
+/** Insert `line` after the last non-blank line, where it sits at the top level of the diagram. */
+function appendLine(source: string, line: string): string {
+  const end = source.trimEnd().length;
+  return applyChanges(source, [{ start: end, end, text: `\n${getTopLevelIndent(source)}${line}` }]);
+}
+
+function formatLabel(source: string, mention: FlowchartNodeMention & { label: TextRange }, label: string): string {
+  const text = label.trim().replace(/\r?\n/g, "<br>");
+  if (!text) throw new Error("Node labels can't be empty.");
+  // The renderer ends a label at the first closing delimiter, quoted or not.
+  const closer = source.slice(mention.label.end, mention.range.end).replace(/:::[\w-]+$/, "");
+  const blocked = [...new Set(closer)].find(character => text.includes(character));
+  if (blocked) throw new Error(`This node's label can't contain "${blocked}".`);
+  const current = source.slice(mention.label.start, mention.label.end);
+  return current.length > 1 && current.startsWith('"') && current.endsWith('"') ? `"${text}"` : text;
+}
+
+function renameNode(source: string, id: string, label: string): string {
+  const mentions = findMentions(listFlowchartStatements(source), id);
+  const defined = mentions.find(
+    (mention): mention is FlowchartNodeMention & { label: TextRange } => mention.label !== null,
+  );
+  if (defined) {
+    return applyChanges(source, [{ ...defined.label, text: formatLabel(source, defined, label) }]);
+  }
+  const first = mentions[0];
+  if (!first) throw new Error(`Node "${id}" is not written in the source.`);
+  const text = label.trim().replace(/\r?\n/g, "<br>");
+  if (!text) throw new Error("Node labels can't be empty.");
+  if (text.includes("]")) throw new Error(`This node's label can't contain "]".`);
+  const at = first.range.start + id.length;
+  return applyChanges(source, [{ start: at, end: at, text: `[${text}]` }]);
+}
+
+/** The first `N<number>` id no node uses yet. */
+function createNodeId(statements: readonly FlowchartStatement[]): string {
+  const used = new Set(statements.flatMap(({ groups }) => groups.flat().map(mention => mention.id)));
+  let index = 1;
+  while (used.has(`N${index}`)) index++;
+  return `N${index}`;
+}
+
+/** A node group as written, or rebuilt with ` & ` when it loses `removed`. */
+function writeGroup(source: string, group: readonly FlowchartNodeMention[], removed: string): string {
+  if (!group.some(mention => mention.id === removed)) {
+    return source.slice(group[0]!.range.start, group.at(-1)!.range.end);
+  }
+  return group
+    .filter(mention => mention.id !== removed)
+    .map(mention => source.slice(mention.range.start, mention.range.end))
+    .join(" & ");
+}
+
+/**
+ * What is left of a statement without `id`: its groups lose the node, and a chain
+ * broken where a group empties is split into the parts on either side.
+ * Parts that are just bare node names are dropped when those nodes are
+ * written elsewhere anyway.
+ */
+function removeFromStatement(
+  source: string,
+  statement: FlowchartStatement,
+  id: string,
+  isWrittenElsewhere: (id: string) => boolean,
+): string[] {
+  const parts: FlowchartNodeMention[][][] = [[]];
+  for (const group of statement.groups) {
+    if (group.every(mention => mention.id === id)) parts.push([]);
+    else parts.at(-1)!.push(group);
+  }
+  return parts
+    .filter(part => {
+      if (part.length === 0) return false;
+      if (part.length > 1) return true;
+      const mentions = part[0]!.filter(mention => mention.id !== id);
+      return (
+        mentions.some(
+          mention => mention.label !== null || mention.range.end - mention.range.start > mention.id.length,
+        ) || mentions.some(mention => !isWrittenElsewhere(mention.id))
+      );
+    })
+    .map(part => {
+      let text = "";
+      for (const [index, group] of part.entries()) {
+        if (index > 0) {
+          // Keep the arrow (and its label) exactly as written.
+          const previous = part[index - 1]!;
+          text += source.slice(previous.at(-1)!.range.end, group[0]!.range.start);
+        }
+        text += writeGroup(source, group, id);
+      }
+      return text;
+    });
+}
+
+/**
+ * Deleting the statement at `range`: the whole line with its line break when
+ * nothing else is written on it, otherwise just the statement and the `;` and
+ * spaces after it.
+ */
+function getStatementRemoval(source: string, range: TextRange): SourceChange {
+  const lineStart = source.lastIndexOf("\n", range.start - 1) + 1;
+  const lineEnd = source.indexOf("\n", range.end);
+  const rest = source.slice(range.end, lineEnd === -1 ? source.length : lineEnd);
+  if (!source.slice(lineStart, range.start).trim() && !rest.trim()) return getLineRemoval(source, range);
+  return { ...range, end: range.end + /^\s*;?\s*/.exec(rest)![0].length, text: "" };
+}
+
+/** The whole line holding `range`, with its line break, for deleting it. */
+function getLineRemoval(source: string, range: TextRange): SourceChange {
+  const start = source.lastIndexOf("\n", range.start - 1) + 1;
+  const end = source.indexOf("\n", range.end);
+  if (end !== -1) return { start, end: end + 1, text: "" };
+  return { start: Math.max(0, start - 1), end: source.length, text: "" };
+}
+
+/** Drop `id` from `class` and `style` lines, deleting the ones left with no node. */
+function getStyleLineChanges(source: string, id: string): SourceChange[] {
+  const changes: SourceChange[] = [];
+  let offset = 0;
+  for (const line of source.split("\n")) {
+    const range = { start: offset, end: offset + line.length };
+    offset += line.length + 1;
+    const match = /^(\s*(?:class|style|click)\s+)([\w,-]+)(\s.*)?$/.exec(line);
+    if (!match) continue;
+    const [, head = "", list = "", tail = ""] = match;
+    const ids = list.split(",").map(part => part.trim());
+    if (!ids.includes(id)) continue;
+    const rest = ids.filter(part => part !== id);
+    if (rest.length === 0 || head.trim() === "click") changes.push(getLineRemoval(source, range));
+    else changes.push({ ...range, text: `${head}${rest.join(",")}${tail}` });
+  }
+  return changes;
+}
+
+/**
+ * Remove a node and every edge to or from it. `linkStyle` indexes are left
+ * as written, so they may point at different edges afterwards.
+ */
+function removeNode(source: string, id: string): string {
+  const statements = listFlowchartStatements(source);
+  const affected = statements.filter(({ groups }) => groups.some(group => group.some(mention => mention.id === id)));
+  if (affected.length === 0) throw new Error(`Node "${id}" is not written in the source.`);
+  const isWrittenElsewhere = (other: string) =>
+    statements.some(
+      statement => !affected.includes(statement) && statement.groups.some(group => group.some(m => m.id === other)),
+    );
+  const changes = affected.map(statement => {
+    const parts = removeFromStatement(source, statement, id, isWrittenElsewhere);
+    if (parts.length === 0) return getStatementRemoval(source, statement.range);
+    // Parts split off a chain go on lines of their own, at the statement's indent.
+    return { ...statement.range, text: parts.join(`\n${getLineIndent(source, statement.range.start)}`) };
+  });
+  return applyChanges(source, [...changes, ...getStyleLineChanges(source, id)]);
+}
+
+/**
+ * `source` with `edit` applied as a small text change. Throws with a message
+ * for the user when the edit can't be written.
+ */
+export function applyFlowchartEdit(source: string, edit: FlowchartEdit): string {
+  switch (edit.kind) {
+    case "rename":
+      return renameNode(source, edit.id, edit.label);
+    case "connect":
+      return appendLine(source, `${edit.from} --> ${edit.to}`);
+    case "add-node": {
+      const node = `${createNodeId(listFlowchartStatements(source))}[${NEW_NODE_LABEL}]`;
+      return appendLine(source, edit.from ? `${edit.from} --> ${node}` : node);
+    }
+    case "remove-node":
+      return removeNode(source, edit.id);
+  }
+}
@@ -0,0 +1,170 @@
+import { createHighlighterCore, type GrammarState } from "shiki/core";
+import { createJavaScriptRegexEngine } from "shiki/engine/javascript";
+import langMermaid from "shiki/langs/mermaid.mjs";
+import themeCatppuccinLatte from "shiki/themes/catppuccin-latte.mjs";
+import themeCatppuccinMocha from "shiki/themes/catppuccin-mocha.mjs";
+import themeDracula from "shiki/themes/dracula.mjs";
+import themeGithubDark from "shiki/themes/github-dark.mjs";
+import themeGithubLight from "shiki/themes/github-light.mjs";
+import themeNord from "shiki/themes/nord.mjs";
+import themeOneDarkPro from "shiki/themes/one-dark-pro.mjs";
+import themeSolarizedDark from "shiki/themes/solarized-dark.mjs";
+import themeSolarizedLight from "shiki/themes/solarized-light.mjs";
+import themeTokyoNight from "shiki/themes/tokyo-night.mjs";
+
+type ShikiTokenLine = Array<{
+  content: string;
+  color?: string | undefined;
+  fontStyle?: number | undefined;
+}>;
+
+/** A half-open range of source line indexes. */
+export type LineRange = { start: number; end: number };
+
+type HighlightedLine = {
+  /** Grammar state the line was tokenized from; the line stays valid while the state before it is unchanged. */
+  entry: GrammarState;
+  exit: GrammarState;
+  html: string;
+};
+
+/**
+ * Lines tokenized for the last highlighted source. Entries past the last
+ * requested line are left empty until they are needed.
+ */
+type HighlightCache = {
+  theme: string;
+  /** State after the opening fence line, which the Mermaid grammar needs to start from. */
+  initial: GrammarState;
+  texts: string[];
+  lines: (HighlightedLine | undefined)[];
+};
+
+let highlightCache: HighlightCache | null = null;
+
+let globalShikiHighlighterPromise: Promise<Awaited<ReturnType<typeof createHighlighterCore>>> | null = null;
+
+function getGlobalShikiHighlighter() {
+  if (!globalShikiHighlighterPromise) {
+    globalShikiHighlighterPromise = createHighlighterCore({
+      themes: [
+        themeCatppuccinLatte,
+        themeCatppuccinMocha,
+        themeDracula,
+        themeGithubDark,
+        themeGithubLight,
+        themeNord,
+        themeOneDarkPro,
+        themeSolarizedDark,
+        themeSolarizedLight,
+        themeTokyoNight,
+      ],
+      langs: [langMermaid],
+      engine: createJavaScriptRegexEngine(),
+    });
+  }
+  return globalShikiHighlighterPromise;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function renderShikiTokenLine(line: ShikiTokenLine, fallbackColor: string): string {
+  if (line.length === 0) return " ";
+  return line
+    .map(token => {
+      const styles = [`color:${token.color ?? fallbackColor}`];
+      if ((token.fontStyle ?? 0) & 1) styles.push("font-style:italic");
+      if ((token.fontStyle ?? 0) & 2) styles.push("font-weight:700");
+      if ((token.fontStyle ?? 0) & 4) styles.push("text-decoration:underline");
+      return `<span style=\"${styles.join(";")}\">${escapeHtml(token.content)}</span>`;
+    })
+    .join("");
+}
+
+function isSameGrammarState(a: GrammarState, b: GrammarState): boolean {
+  if (a === b) return true;
+  const stack = a.getInternalStack();
+  const other = b.getInternalStack();
+  return !!stack && !!other && stack.equals(other);
+}
+
+/**
+ * The cache for `texts`, keeping the tokenized lines before the first edited
+ * line and after the last one. Kept lines after the edit are only trusted
+ * again once the state flowing into them matches.
+ */
+function reuseHighlightCache(cache: HighlightCache, texts: string[]): HighlightCache {
+  const previous = cache.texts;
+  const shorter = Math.min(previous.length, texts.length);
+  let prefix = 0;
+  while (prefix < shorter && previous[prefix] === texts[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < shorter - prefix && previous[previous.length - 1 - suffix] === texts[texts.length - 1 - suffix]) {
+    suffix++;
+  }
+  return {
+    ...cache,
+    texts,
+    lines: [
+      ...cache.lines.slice(0, prefix),
+      ...Array.from({ length: texts.length - prefix - suffix }, () => undefined),
+      ...cache.lines.slice(previous.length - suffix, previous.length),
+    ],
+  };
+}
+
+/**
+ * Highlighted HTML for Mermaid source, one line of markup per source line.
+ *
+ * Lines are tokenized one at a time with the grammar state carried between
+ * them and cached, so an edit only re-tokenizes lines from the edit until the
+ * state settles back to what it was. Only lines in `visible` (all of them by
+ * default) get highlighted markup; the rest are plain text in the theme's
+ * foreground color, so the markup still lines up with the textarea.
+ */
+export async function highlightMermaidSource(source: string, theme: string, visible?: LineRange): Promise<string> {
+  const highlighter = await getGlobalShikiHighlighter();
+  const texts = (source || " ").split("\n");
+  const fallbackColor = highlighter.getTheme(theme).fg ?? "#fff";
+
+  if (highlightCache?.theme !== theme) {
+    const fence = highlighter.codeToTokensBase("```mermaid", { lang: "mermaid", theme });
+    const initial = highlighter.getLastGrammarState(fence);
+    if (!initial) throw new Error("Mermaid grammar has no state to start from.");
+    highlightCache = { theme, initial, texts: [], lines: [] };
+  }
+  const cache = reuseHighlightCache(highlightCache, texts);
+  highlightCache = cache;
+
+  const start = Math.max(0, visible?.start ?? 0);
+  const end = Math.min(texts.length, visible?.end ?? texts.length);
+  for (let index = 0; index < end; index++) {
+    const entry = index === 0 ? cache.initial : cache.lines[index - 1]!.exit;
+    const line = cache.lines[index];
+    if (line && isSameGrammarState(line.entry, entry)) {
+      // Keep the chain of states identical so the next line compares by reference.
+      if (line.entry !== entry) cache.lines[index] = { ...line, entry };
+      continue;
+    }
+    const tokens = highlighter.codeToTokensBase(texts[index]!, { lang: "mermaid", theme, grammarState: entry });
+    cache.lines[index] = {
+      entry,
+      exit: highlighter.getLastGrammarState(tokens) ?? entry,
+      html: renderShikiTokenLine(tokens[0] ?? [], fallbackColor),
+    };
+  }
+
+  return texts
+    .map((text, index) => {
+      if (index >= start && index < end) return cache.lines[index]!.html;
+      return text ? `<span style="color:${fallbackColor}">${escapeHtml(text)}</span>` : " ";
+    })
+    .join("\n");
+}
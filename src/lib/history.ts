@@ -0,0 +1,109 @@
+/**
+ * Snapshot-based edit history for one document. `entries[index]` is always
+ * the current source; entries after it are redo states.
+ */
+export type EditHistory = {
+  entries: string[];
+  index: number;
+  /** Whether the current entry is still absorbing a run of typing. */
+  open: boolean;
+  lastEditAt: number;
+};
+
+/** The part of an {@link EditHistory} that is worth persisting. */
+export type StoredHistory = Pick<EditHistory, "entries" | "index">;
+
+export const MAX_HISTORY_ENTRIES = 100;
+/** Keystrokes closer together than this collapse into one undo step. */
+export const HISTORY_COALESCE_MS = 1000;
+
+export function createHistory(source: string): EditHistory {
+  return { entries: [source], index: 0, open: false, lastEditAt: 0 };
+}
+
+/**
+ * Record `source` as the new current state. Typing coalesces with the
+ * previous edit; a checkpoint always becomes its own undo step and closes
+ * the run so the next keystroke starts a new one.
+ */
+export function recordEdit(
+  history: EditHistory,
+  source: string,
+  options: { checkpoint?: boolean; now?: number } = {},
+): EditHistory {
+  if (history.entries[history.index] === source) return history;
+  const now = options.now ?? Date.now();
+  const checkpoint = options.checkpoint ?? false;
+
+  if (!checkpoint && history.open && now - history.lastEditAt < HISTORY_COALESCE_MS) {
+    const entries = history.entries.slice(0, history.index + 1);
+    entries[history.index] = source;
+    return { entries, index: history.index, open: true, lastEditAt: now };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), source];
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  return {
+    entries: entries.slice(overflow),
+    index: entries.length - 1 - overflow,
+    open: !checkpoint,
+    lastEditAt: now,
+  };
+}
+
+export function canUndo(history: EditHistory): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: EditHistory): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+export function undo(history: EditHistory): EditHistory {
+  if (!canUndo(history)) return history;
+  return { ...history, index: history.index - 1, open: false };
+}
+
+export function redo(history: EditHistory): EditHistory {
+  if (!canRedo(history)) return history;
+  return { ...history, index: history.index + 1, open: false };
+}
+
+export function getHistorySource(history: EditHistory): string {
+  return history.entries[history.index]!;
+}
+
+/**
+ * Reuse a stored history when it still ends at `source`; otherwise start
+ * over (or append `source`) so undo never jumps to unrelated text.
+ */
+export function restoreHistory(stored: unknown, source: string): EditHistory {
+  if (!stored || typeof stored !== "object") return createHistory(source);
+  const { entries, index } = stored as Record<string, unknown>;
+  if (
+    !Array.isArray(entries) ||
+    entries.length === 0 ||
+    !entries.every(entry => typeof entry === "string") ||
+    typeof index !== "number" ||
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= entries.length
+  ) {
+    return createHistory(source);
+  }
+  const history: EditHistory = { entries: entries.slice(-MAX_HISTORY_ENTRIES), index: 0, open: false, lastEditAt: 0 };
+  history.index = Math.max(0, index - (entries.length - history.entries.length));
+  return recordEdit(history, source, { checkpoint: true });
+}
+
+/** Caret position in `next` just after the region that differs from `previous`. */
+export function getChangeCaret(previous: string, next: string): number {
+  const limit = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < limit && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < limit - prefix && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]) {
+    suffix++;
+  }
+  return next.length - suffix;
+}
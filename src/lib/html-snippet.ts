@@ -0,0 +1,28 @@
+import type { DiagramColors } from "beautiful-mermaid";
+import { escapeHtml } from "./highlight";
+import { appendSvgRootStyle, inlineSvgCustomProperties } from "./svg";
+
+/** What the snippet shows: a rendered SVG, or colored text from `colorMode: "html"`. */
+export type SnippetContent = { kind: "svg"; svg: string } | { kind: "text"; html: string };
+
+const FIGURE_STYLE = "margin:0;padding:16px;border-radius:8px;overflow-x:auto;";
+const CAPTION_STYLE = "margin-top:8px;font:13px/1.4 system-ui,sans-serif;opacity:.7;";
+const PRE_STYLE = "margin:0;font:13px/1.35 ui-monospace,SFMono-Regular,Menlo,Consolas,monospace;white-space:pre;";
+
+/**
+ * A standalone `<figure>` for pasting into a CMS. Styles are inline because
+ * most editors drop `<style>` blocks, and SVG colors are resolved for the
+ * same reason.
+ */
+export function createHtmlSnippet(content: SnippetContent, colors: DiagramColors, caption?: string): string {
+  const body =
+    content.kind === "svg"
+      ? appendSvgRootStyle(inlineSvgCustomProperties(content.svg), "display:block;max-width:100%;height:auto")
+          .trim()
+          .replace(/^<svg\b/, '<svg role="img"')
+      : `<pre style="${PRE_STYLE}color:${colors.fg};">${content.html}</pre>`;
+  // A rendered SVG paints its own background; text needs the theme's.
+  const background = content.kind === "text" ? `background:${colors.bg};` : "";
+  const figcaption = caption ? `\n  <figcaption style="${CAPTION_STYLE}">${escapeHtml(caption)}</figcaption>` : "";
+  return `<figure style="${FIGURE_STYLE}${background}">\n  ${body}${figcaption}\n</figure>\n`;
+}
@@ -0,0 +1,54 @@
+import type { SvgSize } from "./svg";
+
+/** How large an image export should be: a scale factor, or an exact width or height in pixels. */
+export type ImageSize = { mode: "scale"; scale: number } | { mode: "width" | "height"; pixels: number };
+
+export const MIN_IMAGE_SCALE = 0.1;
+export const MAX_IMAGE_SCALE = 64;
+
+/**
+ * Canvas limits. Chrome and Firefox cap each side at 32,767 px and the area
+ * at 268 MP; Safari caps the area at 16.7 MP, and larger canvases come back
+ * blank or make `toBlob` yield null.
+ */
+export const MAX_CANVAS_DIMENSION = 32_767;
+export const MAX_CANVAS_AREA = 268_435_456;
+export const SAFARI_MAX_CANVAS_AREA = 16_777_216;
+
+export type CanvasSizeCheck =
+  | { status: "ok" }
+  /** Beyond what Safari can allocate; other browsers manage. */
+  | { status: "risky" }
+  /** Beyond every browser; `fittingScale` is the largest scale that fits. */
+  | { status: "too-large"; fittingScale: number };
+
+export function isImageScale(value: number): boolean {
+  return Number.isFinite(value) && value >= MIN_IMAGE_SCALE && value <= MAX_IMAGE_SCALE;
+}
+
+/** Scale factor that turns `svgSize` into the requested size. */
+export function resolveImageScale(size: ImageSize, svgSize: SvgSize): number {
+  if (size.mode === "scale") return size.scale;
+  return size.pixels / (size.mode === "width" ? svgSize.width : svgSize.height);
+}
+
+export function getCanvasPixelSize(svgSize: SvgSize, scale: number): SvgSize {
+  return {
+    width: Math.max(1, Math.round(svgSize.width * scale)),
+    height: Math.max(1, Math.round(svgSize.height * scale)),
+  };
+}
+
+export function checkCanvasSize(svgSize: SvgSize, scale: number): CanvasSizeCheck {
+  const { width, height } = getCanvasPixelSize(svgSize, scale);
+  if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION || width * height > MAX_CANVAS_AREA) {
+    const fittingScale = Math.min(
+      MAX_CANVAS_DIMENSION / svgSize.width,
+      MAX_CANVAS_DIMENSION / svgSize.height,
+      Math.sqrt(MAX_CANVAS_AREA / (svgSize.width * svgSize.height)),
+    );
+    // Round down so rounding the pixel size cannot push it back over.
+    return { status: "too-large", fittingScale: Math.floor(fittingScale * 100) / 100 };
+  }
+  return width * height > SAFARI_MAX_CANVAS_AREA ? { status: "risky" } : { status: "ok" };
+}
@@ -0,0 +1,133 @@
+/** A ```mermaid fence found in a markdown file. */
+export type MermaidBlock = {
+  /** Position among the file's mermaid blocks, starting at 0. */
+  index: number;
+  /** Diagram text with the fence indentation removed and `\n` line endings. */
+  source: string;
+  /** Nearest ATX or setext heading above the block, if any. */
+  heading: string | null;
+  /** 1-based line of the opening fence. */
+  line: number;
+  /** Offsets of the fenced content (between the fence lines) in the file. */
+  contentStart: number;
+  contentEnd: number;
+  /** Indentation of the opening fence, re-applied to edited lines. */
+  indent: string;
+  lineEnding: "\n" | "\r\n";
+};
+
+type Line = { text: string; start: number; end: number; ending: string };
+
+const OPENING_FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const ATX_HEADING_PATTERN = /^ {0,3}#{1,6}(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(?:=+|-+)\s*$/;
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  const pattern = /([^\r\n]*)(\r\n|\n|\r|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) && match.index < text.length) {
+    lines.push({
+      text: match[1]!,
+      start: match.index,
+      end: match.index + match[1]!.length,
+      ending: match[2]!,
+    });
+    if (!match[2]) break;
+  }
+  return lines;
+}
+
+function stripIndent(line: string, indent: number): string {
+  let index = 0;
+  while (index < indent && line[index] === " ") index++;
+  return line.slice(index);
+}
+
+/**
+ * Every ```mermaid (or ~~~mermaid) fenced block in `markdown`, following the
+ * CommonMark fence rules: up to three spaces of indentation, and a closing
+ * fence of the same character at least as long as the opening one. An
+ * unclosed fence runs to the end of the file.
+ */
+export function extractMermaidBlocks(markdown: string): MermaidBlock[] {
+  const lines = splitLines(markdown);
+  const blocks: MermaidBlock[] = [];
+  let heading: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    const opening = OPENING_FENCE_PATTERN.exec(line.text);
+    if (!opening) {
+      const atx = ATX_HEADING_PATTERN.exec(line.text);
+      if (atx) heading = atx[1]?.trim() || null;
+      else if (index > 0 && SETEXT_UNDERLINE_PATTERN.test(line.text) && lines[index - 1]!.text.trim()) {
+        heading = lines[index - 1]!.text.trim();
+      }
+      continue;
+    }
+
+    const [, indent = "", fence = "", language = ""] = opening;
+    let closing = index + 1;
+    while (closing < lines.length) {
+      const candidate = lines[closing]!.text;
+      const match = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(candidate);
+      if (match && match[1]![0] === fence[0] && match[1]!.length >= fence.length) break;
+      closing++;
+    }
+
+    if (language.toLowerCase() === "mermaid") {
+      const content = lines.slice(index + 1, closing);
+      // An empty block has no content lines, so edits go right before the closing fence.
+      const contentStart =
+        content.length > 0 ? content[0]!.start : closing < lines.length ? lines[closing]!.start : markdown.length;
+      blocks.push({
+        index: blocks.length,
+        source: content.map(contentLine => stripIndent(contentLine.text, indent.length)).join("\n"),
+        heading,
+        line: index + 1,
+        contentStart,
+        contentEnd: content.length > 0 ? content[content.length - 1]!.end : contentStart,
+        indent,
+        lineEnding: line.ending === "\r\n" ? "\r\n" : "\n",
+      });
+    }
+    index = closing;
+  }
+  return blocks;
+}
+
+function formatBlockSource(block: MermaidBlock, source: string): string {
+  const lines = source.replace(/\r\n?/g, "\n").replace(/\n+$/, "").split("\n");
+  return lines.map(line => (line ? `${block.indent}${line}` : line)).join(block.lineEnding);
+}
+
+/**
+ * `markdown` with the given blocks' content replaced. Blocks without a
+ * replacement, and everything outside the fences, stay byte-identical.
+ */
+export function replaceMermaidBlocks(
+  markdown: string,
+  blocks: readonly MermaidBlock[],
+  sources: ReadonlyMap<number, string>,
+): string {
+  let output = "";
+  let cursor = 0;
+  for (const block of blocks) {
+    const source = sources.get(block.index);
+    if (source === undefined || source === block.source) continue;
+    const text = formatBlockSource(block, source);
+    // A block with no content lines ends right at its closing fence, so new text needs its own line break.
+    const needsLineBreak =
+      text !== "" && block.contentStart === block.contentEnd && !/[\r\n]/.test(markdown[block.contentEnd] ?? "");
+    // An unclosed fence at the very end of the file has no line break after its opening line either.
+    const needsLeadingBreak = text !== "" && !/[\r\n]/.test(markdown[block.contentStart - 1] ?? "\n");
+    output +=
+      markdown.slice(cursor, block.contentStart) +
+      (needsLeadingBreak ? block.lineEnding : "") +
+      text +
+      (needsLineBreak ? block.lineEnding : "");
+    cursor = block.contentEnd;
+  }
+  return output + markdown.slice(cursor);
+}
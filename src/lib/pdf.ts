@@ -0,0 +1,113 @@
+import { jsPDF } from "jspdf";
+import { svg2pdf } from "svg2pdf.js";
+import { parseHexColor } from "./color";
+import { extractSvgSize, inlineSvgCustomProperties, readSvgBackground } from "./svg";
+
+export type PdfPageSize = "a4" | "letter" | "fit";
+export type PdfOrientation = "portrait" | "landscape";
+
+export type PdfOptions = {
+  pageSize: PdfPageSize;
+  /** Ignored for `"fit"`, where the page takes the diagram's shape. */
+  orientation: PdfOrientation;
+  /** Page margin in millimeters. */
+  margin: number;
+  /** Grow small diagrams to fill the page; large ones always shrink to fit. */
+  fillPage: boolean;
+  title?: string;
+  footer?: string;
+};
+
+export const PDF_PAGE_SIZES: readonly PdfPageSize[] = ["a4", "letter", "fit"];
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: "a4",
+  orientation: "landscape",
+  margin: 12,
+  fillPage: false,
+};
+
+/** Portrait page sizes in points. */
+const PAGE_SIZE_POINTS = { a4: [595.28, 841.89], letter: [612, 792] } as const;
+const POINTS_PER_MM = 72 / 25.4;
+/** CSS pixels are 1/96 in; PDF points are 1/72 in. */
+const POINTS_PER_PX = 0.75;
+const TITLE_FONT_SIZE = 14;
+const FOOTER_FONT_SIZE = 8;
+const TEXT_GAP = 8;
+
+/**
+ * Prepare rendered SVG for svg2pdf, which evaluates neither CSS custom
+ * properties nor `@import`; text falls back to the standard PDF fonts.
+ */
+function toPdfSvgElement(svgMarkup: string): Element {
+  const markup = inlineSvgCustomProperties(svgMarkup).replace(/@import[^;]*;/g, "");
+  const parsed = new DOMParser().parseFromString(markup, "image/svg+xml");
+  if (parsed.querySelector("parsererror")) throw new Error("Could not read the rendered SVG for PDF export.");
+  return parsed.documentElement;
+}
+
+/**
+ * Vector PDF of a rendered diagram on a single page, with an optional title
+ * above it and a footer line below.
+ */
+export async function createPdfFromSvg(svgMarkup: string, options: PdfOptions): Promise<Blob> {
+  const size = extractSvgSize(svgMarkup);
+  if (!size) throw new Error("Could not calculate PDF dimensions from rendered SVG.");
+
+  const margin = Math.max(0, options.margin) * POINTS_PER_MM;
+  const titleHeight = options.title ? TITLE_FONT_SIZE + TEXT_GAP : 0;
+  const footerHeight = options.footer ? FOOTER_FONT_SIZE + TEXT_GAP : 0;
+  const diagramWidth = size.width * POINTS_PER_PX;
+  const diagramHeight = size.height * POINTS_PER_PX;
+
+  let pageWidth: number;
+  let pageHeight: number;
+  if (options.pageSize === "fit") {
+    pageWidth = diagramWidth + margin * 2;
+    pageHeight = diagramHeight + margin * 2 + titleHeight + footerHeight;
+  } else {
+    const [short, long] = PAGE_SIZE_POINTS[options.pageSize];
+    [pageWidth, pageHeight] = options.orientation === "portrait" ? [short, long] : [long, short];
+  }
+
+  const availableWidth = pageWidth - margin * 2;
+  const availableHeight = pageHeight - margin * 2 - titleHeight - footerHeight;
+  if (availableWidth <= 0 || availableHeight <= 0) throw new Error("PDF margins leave no room for the diagram.");
+  const fitScale = Math.min(availableWidth / diagramWidth, availableHeight / diagramHeight);
+  const scale = options.fillPage ? fitScale : Math.min(1, fitScale);
+  const width = diagramWidth * scale;
+  const height = diagramHeight * scale;
+  const x = margin + (availableWidth - width) / 2;
+  const y = margin + titleHeight + (availableHeight - height) / 2;
+
+  const pdf = new jsPDF({
+    unit: "pt",
+    format: [pageWidth, pageHeight],
+    orientation: pageWidth > pageHeight ? "landscape" : "portrait",
+  });
+  if (options.title) pdf.setProperties({ title: options.title });
+
+  // svg2pdf ignores the root background, so paint it behind the diagram.
+  const background = readSvgBackground(inlineSvgCustomProperties(svgMarkup));
+  const backgroundRgb = background ? parseHexColor(background) : null;
+  if (backgroundRgb) {
+    pdf.setFillColor(backgroundRgb.r, backgroundRgb.g, backgroundRgb.b);
+    pdf.rect(x, y, width, height, "F");
+  }
+  await svg2pdf(toPdfSvgElement(svgMarkup), pdf, { x, y, width, height });
+
+  pdf.setTextColor(60, 60, 60);
+  if (options.title) {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(TITLE_FONT_SIZE);
+    pdf.text(options.title, margin, margin + TITLE_FONT_SIZE, { baseline: "alphabetic", maxWidth: availableWidth });
+  }
+  if (options.footer) {
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(FOOTER_FONT_SIZE);
+    pdf.text(options.footer, margin, pageHeight - margin, { baseline: "alphabetic", maxWidth: availableWidth });
+  }
+
+  return pdf.output("blob");
+}
@@ -0,0 +1,182 @@
+import { inlineSvgCustomProperties } from "./svg";
+
+export type PublishSvgOptions = {
+  minify: boolean;
+};
+
+/**
+ * What happened to the diagram's web fonts: `embedded` when every Google
+ * Fonts import was replaced by an inline subset, `linked` when at least one
+ * could not be fetched and still points at Google Fonts.
+ */
+export type PublishFontStatus = "embedded" | "linked" | "none";
+
+export type PublishedSvg = {
+  svg: string;
+  bytes: number;
+  fontStatus: PublishFontStatus;
+};
+
+const GOOGLE_FONTS_IMPORT_PATTERN = /@import url\((['"]?)(https:\/\/fonts\.googleapis\.com\/css2\?[^'")]+)\1\);?/g;
+const FONT_URL_PATTERN = /url\((['"]?)(https:\/\/fonts\.gstatic\.com\/[^'")]+)\1\)/g;
+
+const textEncoder = new TextEncoder();
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([\da-f]+)|(amp|lt|gt|quot|apos));/gi, (entity, decimal, hex, name) => {
+    if (decimal) return String.fromCodePoint(Number.parseInt(decimal, 10));
+    if (hex) return String.fromCodePoint(Number.parseInt(hex, 16));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[(name as string).toLowerCase()] ?? entity;
+  });
+}
+
+/** Every character drawn by `<text>` elements, for requesting a font subset. */
+function collectTextCharacters(svgMarkup: string): string {
+  const characters = new Set<string>();
+  for (const match of svgMarkup.matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/g)) {
+    for (const character of decodeEntities(match[1]!.replace(/<[^>]+>/g, ""))) characters.add(character);
+  }
+  return [...characters].sort().join("");
+}
+
+async function fetchFontDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Font request failed (${response.status}).`);
+  // Subset URLs carry no file extension; the stylesheet's format() hint still applies.
+  const mime = response.headers.get("content-type")?.split(";")[0] || "font/woff2";
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return `data:${mime};base64,${bytesToBase64(bytes)}`;
+}
+
+/**
+ * Fetch a Google Fonts stylesheet limited to `text` and return its
+ * `@font-face` rules with the font files inlined as base64.
+ */
+async function fetchSubsetFontFaces(importUrl: string, text: string): Promise<string> {
+  // Append rather than rebuild the query, so the family spec keeps its original encoding.
+  const response = await fetch(`${decodeEntities(importUrl)}&text=${encodeURIComponent(text)}`);
+  if (!response.ok) throw new Error(`Font stylesheet request failed (${response.status}).`);
+  const css = await response.text();
+
+  const dataUrls = new Map<string, string>();
+  for (const match of css.matchAll(FONT_URL_PATTERN)) {
+    const fontUrl = match[2]!;
+    if (!dataUrls.has(fontUrl)) dataUrls.set(fontUrl, await fetchFontDataUrl(fontUrl));
+  }
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(FONT_URL_PATTERN, (_match, _quote, fontUrl: string) => `url("${dataUrls.get(fontUrl)}")`)
+    .trim();
+}
+
+async function embedGoogleFonts(svgMarkup: string): Promise<{ svg: string; fontStatus: PublishFontStatus }> {
+  const imports = [...svgMarkup.matchAll(GOOGLE_FONTS_IMPORT_PATTERN)];
+  if (imports.length === 0) return { svg: svgMarkup, fontStatus: "none" };
+
+  const text = collectTextCharacters(svgMarkup);
+  let output = svgMarkup;
+  let fontStatus: PublishFontStatus = "embedded";
+  for (const match of imports) {
+    try {
+      const fontFaces = text ? await fetchSubsetFontFaces(match[2]!, text) : "";
+      // The stylesheet is CSS inside XML, so `&` has to stay escaped.
+      output = output.replace(match[0], () => fontFaces.replaceAll("&", "&amp;"));
+    } catch {
+      fontStatus = "linked";
+    }
+  }
+  return { svg: output, fontStatus };
+}
+
+/** Class names that some selector in the SVG's embedded stylesheets refers to. */
+function getStyledClassNames(svgMarkup: string): Set<string> {
+  const names = new Set<string>();
+  for (const [, css] of svgMarkup.matchAll(/<style>([\s\S]*?)<\/style>/g)) {
+    for (const [, name] of css!.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) names.add(name!);
+  }
+  return names;
+}
+
+/**
+ * Drop what only the studio needs: `data-*` attributes, classes no
+ * stylesheet rule selects (class diagrams style members with `.mono`), and
+ * custom property declarations that are no longer referenced once values
+ * are inlined.
+ */
+function stripEditorMarkup(svgMarkup: string): string {
+  const styledClasses = getStyledClassNames(svgMarkup);
+  return svgMarkup
+    .replace(/\sdata-[\w-]+=(?:"[^"]*"|'[^']*')/g, "")
+    .replace(/\sclass=(?:"([^"]*)"|'([^']*)')/g, (_match, double?: string, single?: string) => {
+      const kept = (double ?? single ?? "").split(/\s+/).filter(name => styledClasses.has(name));
+      return kept.length > 0 ? ` class="${kept.join(" ")}"` : "";
+    })
+    .replace(/<style>([\s\S]*?)<\/style>/g, (_match, css: string) => {
+      const cleaned = css
+        .replace(/\/\*[\s\S]*?\*\//g, "")
+        .replace(/(^|[;{\s])--[\w-]+\s*:[^;{}]*;?/g, "$1")
+        .replace(/[^{}\n]*\{\s*\}\n?/g, "");
+      return `<style>${cleaned}</style>`;
+    })
+    .replace(/(<svg\b[^>]*\sstyle=")([^"]*)"/, (_match, start: string, style: string) => {
+      const declarations = style
+        .split(";")
+        .map(declaration => declaration.trim())
+        .filter(declaration => declaration && !declaration.startsWith("--"));
+      return `${start}${declarations.join(";")}"`;
+    })
+    .replace(/\sstyle=""/g, "");
+}
+
+function trimNumber(value: string): string {
+  return String(Number(Number.parseFloat(value).toFixed(3)));
+}
+
+function minifySvg(svgMarkup: string): string {
+  return svgMarkup
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<style>([\s\S]*?)<\/style>/g, (_match, css: string) => {
+      const minified = css
+        .replace(/\/\*[\s\S]*?\*\//g, "")
+        .replace(/\s+/g, " ")
+        .replace(/\s*([{};:,])\s*/g, "$1")
+        .replace(/;}/g, "}")
+        .trim();
+      return `<style>${minified}</style>`;
+    })
+    .replace(/<[^>]+>/g, tag =>
+      tag
+        .replace(/\d+\.\d{4,}/g, trimNumber)
+        .replace(/\s+/g, " ")
+        .replace(/\s+(\/?>)$/, "$1"),
+    )
+    .replace(/>\s+</g, "><")
+    .trim();
+}
+
+/**
+ * A diagram that renders the same everywhere: CSS variables resolved to
+ * literal colors, Google Fonts replaced by base64 subsets of the glyphs the
+ * diagram uses, editor-only attributes removed and, optionally, minified.
+ */
+export async function createPublishSvg(svgMarkup: string, options: PublishSvgOptions): Promise<PublishedSvg> {
+  const { svg: withFonts, fontStatus } = await embedGoogleFonts(svgMarkup);
+  let svg = stripEditorMarkup(inlineSvgCustomProperties(withFonts));
+  if (options.minify) svg = minifySvg(svg);
+  return { svg, bytes: textEncoder.encode(svg).length, fontStatus };
+}
+
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
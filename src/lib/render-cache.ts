@@ -0,0 +1,86 @@
+import type { RenderedDiagram } from "./render";
+import type { RenderJob } from "./render-jobs";
+
+export const RENDER_CACHE_CAPACITY = 32;
+
+export type RenderCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  capacity: number;
+};
+
+export type RenderCache = {
+  get(key: string): RenderedDiagram | undefined;
+  set(key: string, value: RenderedDiagram): void;
+  clear(): void;
+  /** Current counters; a new object after every change. */
+  getStats(): RenderCacheStats;
+  subscribe(listener: () => void): () => void;
+};
+
+/** Two independent 32-bit string hashes, so distinct inputs practically never share a key. */
+function hashText(source: string): string {
+  let fnv = 0x811c9dc5;
+  let djb = 5381;
+  for (let index = 0; index < source.length; index++) {
+    const code = source.charCodeAt(index);
+    fnv = Math.imul(fnv ^ code, 0x01000193);
+    djb = (Math.imul(djb, 33) + code) | 0;
+  }
+  return `${(fnv >>> 0).toString(36)}${(djb >>> 0).toString(36)}.${source.length}`;
+}
+
+export function getRenderCacheKey(job: Extract<RenderJob, { kind: "render" }>): string {
+  // Color mode only changes text output.
+  const colorMode = job.style === "svg" ? "" : (job.colorMode ?? "none");
+  const theme = typeof job.theme === "string" ? job.theme : JSON.stringify(job.theme);
+  return [hashText(job.source), theme, job.style, colorMode, hashText(JSON.stringify(job.layout ?? {}))].join("|");
+}
+
+/** Least-recently-used cache of rendered diagrams with hit/miss counters. */
+export function createRenderCache(capacity = RENDER_CACHE_CAPACITY): RenderCache {
+  // Map keeps insertion order, so the first key is always the least recently used.
+  const entries = new Map<string, RenderedDiagram>();
+  const listeners = new Set<() => void>();
+  let stats: RenderCacheStats = { hits: 0, misses: 0, evictions: 0, size: 0, capacity };
+
+  const update = (patch: Partial<RenderCacheStats>) => {
+    stats = { ...stats, ...patch, size: entries.size };
+    for (const listener of listeners) listener();
+  };
+
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value === undefined) {
+        update({ misses: stats.misses + 1 });
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, value);
+      update({ hits: stats.hits + 1 });
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      let evictions = stats.evictions;
+      while (entries.size > capacity) {
+        entries.delete(entries.keys().next().value!);
+        evictions++;
+      }
+      update({ evictions });
+    },
+    clear() {
+      entries.clear();
+      update({ hits: 0, misses: 0, evictions: 0 });
+    },
+    getStats: () => stats,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
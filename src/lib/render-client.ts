@@ -0,0 +1,165 @@
+import { createRenderCache, getRenderCacheKey, type RenderCache } from "./render-cache";
+import {
+  runRenderJob,
+  type RenderJob,
+  type RenderJobResult,
+  type RenderWorkerRequest,
+  type RenderWorkerResponse,
+} from "./render-jobs";
+
+/** Built next to index.html by build.ts and served by src/index.ts in dev. */
+const RENDER_WORKER_URL = "render-worker.js";
+
+/** Milliseconds spent doing the work and from request to result. */
+export type RenderTiming = { workMs: number; totalMs: number; cached: boolean };
+
+export type RenderOutcome<T> = { result: T; timing: RenderTiming };
+
+/** Rejection for a request that a newer one on the same channel replaced. */
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Render request was superseded.");
+    this.name = "RenderCancelledError";
+  }
+}
+
+export type RenderClient = {
+  /**
+   * Run `job` in the render worker. Starting a job on a `channel` cancels
+   * the one still pending there, which rejects with {@link RenderCancelledError}.
+   */
+  run<J extends RenderJob>(job: J, channel?: string): Promise<RenderOutcome<RenderJobResult<J>>>;
+  /** Finished diagram renders, shared by every caller of this client. */
+  cache: RenderCache;
+};
+
+type PendingRequest = {
+  job: RenderJob;
+  cacheKey: string | null;
+  channel: string | undefined;
+  startedAt: number;
+  resolve: (outcome: RenderOutcome<RenderJobResult<RenderJob>>) => void;
+  reject: (error: unknown) => void;
+};
+
+function createWorker(): Worker | null {
+  if (typeof Worker === "undefined" || typeof document === "undefined") return null;
+  try {
+    return new Worker(new URL(RENDER_WORKER_URL, document.baseURI), { type: "module" });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Client for the render worker. Falls back to rendering on the main thread
+ * when workers are unavailable or the worker script fails to load.
+ */
+export function createRenderClient(): RenderClient {
+  let worker = createWorker();
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+  const cache = createRenderCache();
+  const latestByChannel = new Map<string, number>();
+
+  const settle = (response: RenderWorkerResponse) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (request.channel && latestByChannel.get(request.channel) === response.id) {
+      latestByChannel.delete(request.channel);
+    }
+
+    switch (response.status) {
+      case "done":
+        if (request.cacheKey && typeof response.result !== "string") {
+          cache.set(request.cacheKey, response.result);
+        }
+        request.resolve({
+          result: response.result,
+          timing: { workMs: response.durationMs, totalMs: performance.now() - request.startedAt, cached: false },
+        });
+        break;
+      case "failed":
+        request.reject(new Error(response.message));
+        break;
+      case "cancelled":
+        request.reject(new RenderCancelledError());
+        break;
+    }
+  };
+
+  const runInline = async (id: number, job: RenderJob) => {
+    const start = performance.now();
+    try {
+      const result = await runRenderJob(job);
+      settle({ id, status: "done", result, durationMs: performance.now() - start });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      settle({ id, status: "failed", message, durationMs: performance.now() - start });
+    }
+  };
+
+  const post = (request: RenderWorkerRequest) => worker?.postMessage(request);
+
+  const cancel = (id: number) => {
+    if (!pending.has(id)) return;
+    settle({ id, status: "cancelled" });
+    post({ type: "cancel", id });
+  };
+
+  worker?.addEventListener("message", (event: MessageEvent<RenderWorkerResponse>) => settle(event.data));
+  worker?.addEventListener("error", event => {
+    event.preventDefault();
+    worker?.terminate();
+    worker = null;
+    for (const [id, request] of pending) void runInline(id, request.job);
+  });
+
+  return {
+    run<J extends RenderJob>(job: J, channel?: string) {
+      if (channel) {
+        const previous = latestByChannel.get(channel);
+        if (previous !== undefined) cancel(previous);
+      }
+
+      const cacheKey = job.kind === "render" ? getRenderCacheKey(job) : null;
+      const cached = cacheKey ? cache.get(cacheKey) : undefined;
+      if (cached) {
+        return Promise.resolve({
+          result: cached as RenderJobResult<J>,
+          timing: { workMs: 0, totalMs: 0, cached: true },
+        });
+      }
+
+      const id = ++nextId;
+      const promise = new Promise<RenderOutcome<RenderJobResult<J>>>((resolve, reject) => {
+        pending.set(id, {
+          job,
+          cacheKey,
+          channel,
+          startedAt: performance.now(),
+          resolve: resolve as PendingRequest["resolve"],
+          reject,
+        });
+      });
+
+      if (channel) latestByChannel.set(channel, id);
+      if (worker) post({ type: "run", id, job });
+      else void runInline(id, job);
+      return promise;
+    },
+    cache,
+  };
+}
+
+let globalRenderClient: RenderClient | null = null;
+
+export function getRenderClient(): RenderClient {
+  globalRenderClient ??= createRenderClient();
+  return globalRenderClient;
+}
+
+export function isRenderCancelled(error: unknown): error is RenderCancelledError {
+  return error instanceof RenderCancelledError;
+}
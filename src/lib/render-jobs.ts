@@ -0,0 +1,35 @@
+import { highlightMermaidSource, type LineRange } from "./highlight";
+import { renderDiagram, type RenderedDiagram, type RenderLayout, type RenderStyle, type RenderTheme } from "./render";
+
+/** Work the render worker knows how to do. */
+export type RenderJob =
+  | {
+      kind: "render";
+      source: string;
+      theme: RenderTheme;
+      style: RenderStyle;
+      layout?: RenderLayout;
+      colorMode?: "none" | "html";
+    }
+  | { kind: "highlight"; source: string; theme: string; visibleLines?: LineRange };
+
+export type RenderJobResult<J extends RenderJob> = J extends { kind: "render" } ? RenderedDiagram : string;
+
+export type RenderWorkerRequest = { type: "run"; id: number; job: RenderJob } | { type: "cancel"; id: number };
+
+export type RenderWorkerResponse =
+  | { id: number; status: "done"; result: RenderedDiagram | string; durationMs: number }
+  | { id: number; status: "failed"; message: string; durationMs: number }
+  | { id: number; status: "cancelled" };
+
+export async function runRenderJob<J extends RenderJob>(job: J): Promise<RenderJobResult<J>> {
+  if (job.kind === "highlight") {
+    return (await highlightMermaidSource(job.source, job.theme, job.visibleLines)) as RenderJobResult<J>;
+  }
+  return (await renderDiagram(job.source, {
+    theme: job.theme,
+    style: job.style,
+    layout: job.layout,
+    colorMode: job.colorMode,
+  })) as RenderJobResult<J>;
+}
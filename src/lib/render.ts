@@ -0,0 +1,179 @@
+import {
+  THEMES,
+  renderMermaidASCII,
+  renderMermaidSVGAsync,
+  type DiagramColors,
+  type ThemeName,
+} from "beautiful-mermaid";
+import { mixHexColors } from "./color";
+import { embedFontFace } from "./svg";
+
+export type RenderStyle = "svg" | "unicode" | "ascii";
+
+export const RENDER_STYLES: readonly RenderStyle[] = ["svg", "unicode", "ascii"];
+export const DEFAULT_RENDER_FONT = "DM Sans";
+export const DEFAULT_RENDER_PADDING = 36;
+export const PNG_SCALES = [1, 2, 8, 16] as const;
+
+export type PngScale = (typeof PNG_SCALES)[number];
+
+export const RASTER_FORMATS = ["png", "webp", "jpeg"] as const;
+
+export type RasterFormat = (typeof RASTER_FORMATS)[number];
+
+/** Canvas encoding for image exports; `quality` and `fill` only apply to lossy formats. */
+export type RasterOptions = {
+  format: RasterFormat;
+  /** 0–1, passed to `canvas.toBlob` for WebP and JPEG. */
+  quality: number;
+  /** Painted under the diagram for JPEG, which has no alpha channel. */
+  fill: string;
+};
+
+export const DEFAULT_RASTER_OPTIONS: RasterOptions = { format: "png", quality: 0.92, fill: "#ffffff" };
+
+/** A font file carried with a diagram so exports render without it installed. */
+export type EmbeddedFont = { family: string; dataUrl: string };
+
+/** Typography and spacing knobs layered over a theme's colors. */
+export type RenderLayout = {
+  font?: string;
+  padding?: number;
+  nodeSpacing?: number;
+  layerSpacing?: number;
+  componentSpacing?: number;
+  /** Text output: columns between nodes side by side. */
+  asciiPaddingX?: number;
+  /** Text output: rows between nodes above each other. */
+  asciiPaddingY?: number;
+  /** Text output: space between a node's label and its box. */
+  asciiBoxPadding?: number;
+  /** Overrides `font` and is embedded in SVG output as an `@font-face`. */
+  embeddedFont?: EmbeddedFont;
+};
+
+/** beautiful-mermaid's own spacing defaults, shown as placeholders in the UI. */
+export const DEFAULT_NODE_SPACING = 24;
+export const DEFAULT_LAYER_SPACING = 40;
+export const DEFAULT_ASCII_PADDING = 5;
+export const DEFAULT_ASCII_BOX_PADDING = 1;
+
+/** A built-in theme name, or explicit colors such as a custom theme's. */
+export type RenderTheme = ThemeName | DiagramColors;
+
+/** Optional theme colors and how much `fg` beautiful-mermaid mixes into `bg` when one is missing. */
+export const THEME_FALLBACK_MIX = { line: 50, accent: 85, muted: 40, surface: 3, border: 20 } as const;
+
+export type ThemeColorKey = keyof DiagramColors;
+
+export type RenderedDiagram = { style: "svg"; svg: string } | { style: "unicode" | "ascii"; text: string };
+
+export function isThemeName(value: string): value is ThemeName {
+  return Object.prototype.hasOwnProperty.call(THEMES, value);
+}
+
+export function isRenderStyle(value: string): value is RenderStyle {
+  return (RENDER_STYLES as readonly string[]).includes(value);
+}
+
+export function isPngScale(value: number): value is PngScale {
+  return (PNG_SCALES as readonly number[]).includes(value);
+}
+
+function readNonNegative(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/** A stored layout with anything unusable dropped, or undefined if none is left. */
+export function parseRenderLayout(value: unknown): RenderLayout | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  const layout: RenderLayout = {};
+  if (typeof record.font === "string" && record.font.trim()) layout.font = record.font.trim();
+  for (const key of [
+    "padding",
+    "nodeSpacing",
+    "layerSpacing",
+    "componentSpacing",
+    "asciiPaddingX",
+    "asciiPaddingY",
+    "asciiBoxPadding",
+  ] as const) {
+    const number = readNonNegative(record[key]);
+    if (number !== undefined) layout[key] = number;
+  }
+  const font = record.embeddedFont as Record<string, unknown> | undefined;
+  if (font && typeof font.family === "string" && typeof font.dataUrl === "string" && font.dataUrl.startsWith("data:")) {
+    layout.embeddedFont = { family: font.family, dataUrl: font.dataUrl };
+  }
+  return Object.keys(layout).length > 0 ? layout : undefined;
+}
+
+export function resolveThemeColors(theme: RenderTheme): DiagramColors {
+  return typeof theme === "string" ? THEMES[theme] : theme;
+}
+
+/** A theme color as rendered: the explicit value, or the fallback mix. */
+export function getThemeColor(colors: DiagramColors, key: ThemeColorKey): string {
+  const explicit = colors[key];
+  if (explicit || key === "bg" || key === "fg") return explicit ?? "";
+  return mixHexColors(colors.fg, colors.bg, THEME_FALLBACK_MIX[key]);
+}
+
+/** SVG render options used by the studio preview and every export. */
+export function getRenderOptions(theme: RenderTheme, layout: RenderLayout = {}) {
+  return {
+    ...resolveThemeColors(theme),
+    font: layout.embeddedFont?.family ?? layout.font ?? DEFAULT_RENDER_FONT,
+    padding: layout.padding ?? DEFAULT_RENDER_PADDING,
+    nodeSpacing: layout.nodeSpacing,
+    layerSpacing: layout.layerSpacing,
+    componentSpacing: layout.componentSpacing,
+  };
+}
+
+/** ASCII palette derived from a theme, mirroring the SVG color fallbacks. */
+export function getAsciiTheme(theme: RenderTheme) {
+  const colors = resolveThemeColors(theme);
+  const line = getThemeColor(colors, "line");
+  const border = getThemeColor(colors, "border");
+  return {
+    fg: colors.fg,
+    border,
+    line,
+    arrow: getThemeColor(colors, "accent"),
+    corner: line,
+    junction: border,
+  };
+}
+
+/** ASCII and Unicode render options: the theme's palette and the text spacing from `layout`. */
+export function getAsciiRenderOptions(theme: RenderTheme, layout: RenderLayout = {}) {
+  return {
+    theme: getAsciiTheme(theme),
+    paddingX: layout.asciiPaddingX,
+    paddingY: layout.asciiPaddingY,
+    boxBorderPadding: layout.asciiBoxPadding,
+  };
+}
+
+/**
+ * Render `source` the way the studio does. Text styles come back without
+ * color codes unless `colorMode` asks for them.
+ */
+export async function renderDiagram(
+  source: string,
+  options: { theme: RenderTheme; style: RenderStyle; layout?: RenderLayout; colorMode?: "none" | "html" },
+): Promise<RenderedDiagram> {
+  if (options.style === "svg") {
+    const svg = await renderMermaidSVGAsync(source, getRenderOptions(options.theme, options.layout));
+    const embeddedFont = options.layout?.embeddedFont;
+    return { style: "svg", svg: embeddedFont ? embedFontFace(svg, embeddedFont) : svg };
+  }
+  const text = renderMermaidASCII(source, {
+    ...getAsciiRenderOptions(options.theme, options.layout),
+    useAscii: options.style === "ascii",
+    colorMode: options.colorMode ?? "none",
+  });
+  return { style: options.style, text };
+}
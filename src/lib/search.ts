@@ -0,0 +1,107 @@
+import type { TextRange } from "./snippets";
+
+export type SearchOptions = {
+  regex: boolean;
+  caseSensitive: boolean;
+};
+
+export type SearchResult = {
+  matches: TextRange[];
+  /** Why the query is not a valid regular expression, if it is not. */
+  error: string | null;
+};
+
+/** Matches beyond this are not highlighted or counted. */
+export const MAX_SEARCH_MATCHES = 2000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function createSearchPattern(query: string, options: SearchOptions): RegExp {
+  return new RegExp(options.regex ? query : escapeRegExp(query), options.caseSensitive ? "gm" : "gim");
+}
+
+/**
+ * Expand `$&`, `$1`…`$99`, `$<name>` and `$$` in a regex replacement the way
+ * `String.prototype.replace` does, for one match.
+ */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, reference: string, name?: string) => {
+    if (reference === "$") return "$";
+    if (reference === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const group = Number(reference);
+    return group > 0 && group < match.length ? (match[group] ?? "") : token;
+  });
+}
+
+/** Non-empty matches of `query` in `source`, in order. */
+export function findMatches(source: string, query: string, options: SearchOptions): SearchResult {
+  if (!query) return { matches: [], error: null };
+  let pattern: RegExp;
+  try {
+    pattern = createSearchPattern(query, options);
+  } catch (error) {
+    return { matches: [], error: error instanceof Error ? error.message : String(error) };
+  }
+  const matches: TextRange[] = [];
+  for (const match of source.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    matches.push({ start: match.index, end: match.index + match[0].length });
+    if (matches.length === MAX_SEARCH_MATCHES) break;
+  }
+  return { matches, error: null };
+}
+
+/** What replacing the match found at `range` inserts, with regex references expanded. */
+function getReplacementText(
+  source: string,
+  range: TextRange,
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+): string | null {
+  const pattern = createSearchPattern(query, options);
+  pattern.lastIndex = range.start;
+  const match = pattern.exec(source);
+  if (!match || match.index !== range.start || match[0].length !== range.end - range.start) return null;
+  return options.regex ? expandReplacement(replacement, match) : replacement;
+}
+
+/** `source` with the match at `range` replaced; null when the text there no longer matches. */
+export function replaceMatch(
+  source: string,
+  range: TextRange,
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+): { source: string; inserted: TextRange } | null {
+  const text = getReplacementText(source, range, query, replacement, options);
+  if (text === null) return null;
+  return {
+    source: source.slice(0, range.start) + text + source.slice(range.end),
+    inserted: { start: range.start, end: range.start + text.length },
+  };
+}
+
+/** `source` with every non-empty match replaced, and how many there were. */
+export function replaceAllMatches(
+  source: string,
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+): { source: string; count: number } {
+  if (!query) return { source, count: 0 };
+  const pattern = createSearchPattern(query, options);
+  let output = "";
+  let cursor = 0;
+  let count = 0;
+  for (const match of source.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    output += source.slice(cursor, match.index) + (options.regex ? expandReplacement(replacement, match) : replacement);
+    cursor = match.index + match[0].length;
+    count++;
+  }
+  return { source: output + source.slice(cursor), count };
+}
@@ -1,10 +1,28 @@
 import { deflateSync, inflateSync } from "fflate";
 
-const SHARE_VERSION = "v1";
 const SHARE_ALGORITHM = "d";
+const LEGACY_SHARE_VERSION = "v1";
+const SHARE_VERSION = "v2";
 const SHARE_PREFIX = `${SHARE_VERSION}.${SHARE_ALGORITHM}.`;
 const SHARE_PARAM = "diagram";
 
+export type ShareThemeMode = "light" | "dark";
+export type ShareRenderStyle = "svg" | "unicode" | "ascii";
+export type ShareView = { x: number; y: number; scale: number };
+
+/**
+ * Everything a share link carries. Only `source` is guaranteed; v1 links
+ * decode to a payload without any settings.
+ */
+export type SharePayload = {
+  source: string;
+  theme?: string;
+  mode?: ShareThemeMode;
+  style?: ShareRenderStyle;
+  pngScale?: number;
+  view?: ShareView;
+};
+
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder();
 
@@ -51,25 +69,64 @@ async function decompressBytes(bytes: Uint8Array): Promise<Uint8Array> {
   return inflateSync(bytes);
 }
 
-function getPayloadFromToken(token: string): string {
-  if (token.startsWith(SHARE_PREFIX)) {
-    return token.slice(SHARE_PREFIX.length);
+function splitToken(token: string): { version: string; payload: string } {
+  const match = /^(v\d+)\.([^.]*)\.(.*)$/s.exec(token);
+  if (!match) {
+    // Unprefixed tokens predate versioning and carry a bare v1 payload.
+    return { version: LEGACY_SHARE_VERSION, payload: token };
   }
-  if (token.startsWith(`${SHARE_VERSION}.`)) {
+  const [, version = "", algorithm = "", payload = ""] = match;
+  const isKnownVersion = version === LEGACY_SHARE_VERSION || version === SHARE_VERSION;
+  if (!isKnownVersion || algorithm !== SHARE_ALGORITHM) {
     throw new Error("Unsupported share link format version.");
   }
-  return token;
+  if (!payload) throw new Error("Share link is missing its diagram data.");
+  return { version, payload };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readShareView(value: unknown): ShareView | undefined {
+  const view = value as Record<string, unknown> | null | undefined;
+  if (!view || !isFiniteNumber(view.x) || !isFiniteNumber(view.y)) return undefined;
+  if (!isFiniteNumber(view.scale) || view.scale <= 0) return undefined;
+  return { x: view.x, y: view.y, scale: view.scale };
+}
+
+function parseSharePayload(json: string): SharePayload {
+  const raw: unknown = JSON.parse(json);
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Share link payload is malformed.");
+  }
+  const data = raw as Record<string, unknown>;
+  if (typeof data.source !== "string") {
+    throw new Error("Share link payload is missing the diagram source.");
+  }
+
+  const payload: SharePayload = { source: data.source };
+  if (typeof data.theme === "string") payload.theme = data.theme;
+  if (data.mode === "light" || data.mode === "dark") payload.mode = data.mode;
+  if (data.style === "svg" || data.style === "unicode" || data.style === "ascii") {
+    payload.style = data.style;
+  }
+  if (isFiniteNumber(data.pngScale)) payload.pngScale = data.pngScale;
+  const view = readShareView(data.view);
+  if (view) payload.view = view;
+  return payload;
 }
 
-export async function encodeDiagramToken(source: string): Promise<string> {
-  const compressed = await compressBytes(textEncoder.encode(source));
+export async function encodeDiagramToken(payload: SharePayload): Promise<string> {
+  const compressed = await compressBytes(textEncoder.encode(JSON.stringify(payload)));
   return `${SHARE_PREFIX}${bytesToBase64Url(compressed)}`;
 }
 
-export async function decodeDiagramToken(token: string): Promise<string> {
-  const compressed = base64UrlToBytes(getPayloadFromToken(token));
-  const decompressed = await decompressBytes(compressed);
-  return textDecoder.decode(decompressed);
+export async function decodeDiagramToken(token: string): Promise<SharePayload> {
+  const { version, payload } = splitToken(token);
+  const compressed = base64UrlToBytes(payload);
+  const decoded = textDecoder.decode(await decompressBytes(compressed));
+  return version === LEGACY_SHARE_VERSION ? { source: decoded } : parseSharePayload(decoded);
 }
 
 export function readDiagramTokenFromUrl(url: URL): string | null {
@@ -0,0 +1,84 @@
+/** A range of the source, as textarea selection offsets. */
+export type TextRange = { start: number; end: number };
+
+export type ExpandedSnippet = {
+  text: string;
+  /** Tab stops in visiting order, relative to the start of `text`; `$0` (or the end) comes last. */
+  stops: TextRange[];
+};
+
+/**
+ * Tab stops of a snippet inserted into the source. Stops are absolute
+ * offsets and move with edits; `index` is the stop being filled in.
+ */
+export type SnippetSession = {
+  stops: TextRange[];
+  index: number;
+};
+
+const TAB_STOP_PATTERN = /\$\{(\d+):([^}]*)\}|\$(\d+)/g;
+
+/**
+ * Turn a snippet template into text and tab stops. Templates use
+ * `${1:placeholder}` and `$1` stops; continuation lines get `indent` so a
+ * multi-line snippet lines up with the line it was inserted on.
+ */
+export function expandSnippet(template: string, indent = ""): ExpandedSnippet {
+  const indented = template.replaceAll("\n", `\n${indent}`);
+  const numbered: { order: number; range: TextRange }[] = [];
+  let text = "";
+  let cursor = 0;
+  for (const match of indented.matchAll(TAB_STOP_PATTERN)) {
+    text += indented.slice(cursor, match.index);
+    const placeholder = match[2] ?? "";
+    const order = Number(match[1] ?? match[3]);
+    numbered.push({
+      order: order === 0 ? Number.POSITIVE_INFINITY : order,
+      range: { start: text.length, end: text.length + placeholder.length },
+    });
+    text += placeholder;
+    cursor = match.index + match[0].length;
+  }
+  text += indented.slice(cursor);
+
+  const stops = numbered.sort((a, b) => a.order - b.order).map(({ range }) => range);
+  if (!numbered.some(({ order }) => order === Number.POSITIVE_INFINITY)) {
+    stops.push({ start: text.length, end: text.length });
+  }
+  return { text, stops };
+}
+
+/** The single edited span that turns `previous` into `next`. */
+export function getTextChange(
+  previous: string,
+  next: string,
+): { start: number; removedLength: number; insertedLength: number } {
+  let start = 0;
+  const shorter = Math.min(previous.length, next.length);
+  while (start < shorter && previous[start] === next[start]) start++;
+  let suffix = 0;
+  while (suffix < shorter - start && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]) {
+    suffix++;
+  }
+  return { start, removedLength: previous.length - start - suffix, insertedLength: next.length - start - suffix };
+}
+
+/**
+ * Move a session's stops through an edit. Typing inside the current stop
+ * grows it; an edit anywhere else ends the session (null).
+ */
+export function mapSnippetSession(session: SnippetSession, previous: string, next: string): SnippetSession | null {
+  const { start, removedLength, insertedLength } = getTextChange(previous, next);
+  const current = session.stops[session.index];
+  if (!current || start < current.start || start + removedLength > current.end) return null;
+  const delta = insertedLength - removedLength;
+  return {
+    index: session.index,
+    stops: session.stops.map((stop, index) => {
+      if (index === session.index) return { start: stop.start, end: stop.end + delta };
+      // Stops are in visiting order, not document order, so shift by position.
+      if (stop.start >= current.end) return { start: stop.start + delta, end: stop.end + delta };
+      return stop;
+    }),
+  };
+}
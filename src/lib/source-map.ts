@@ -0,0 +1,402 @@
+import { detectDiagramKind } from "./completions";
+import type { TextRange } from "./snippets";
+
+/**
+ * A node or edge of the rendered diagram, as beautiful-mermaid identifies it
+ * in the SVG: nodes (also subgraphs, actors, classes and entities) by
+ * `data-id`, edges by their endpoints plus which edge between those two
+ * endpoints it is, in source order.
+ */
+export type DiagramElementRef =
+  { kind: "node"; id: string } | { kind: "edge"; from: string; to: string; index: number };
+
+export type SourceMapEntry = {
+  element: DiagramElementRef;
+  range: TextRange;
+  /** Where the element's label, shape or body is given, rather than a bare mention of it. */
+  isDefinition: boolean;
+};
+
+type SourceLine = { text: string; start: number };
+
+type SourceMapBuilder = {
+  entries: SourceMapEntry[];
+  edgeCounts: Map<string, number>;
+};
+
+function addNode(builder: SourceMapBuilder, id: string, range: TextRange, isDefinition: boolean): void {
+  builder.entries.push({ element: { kind: "node", id }, range, isDefinition });
+}
+
+function addEdge(builder: SourceMapBuilder, from: string, to: string, range: TextRange): void {
+  const key = `${from}\u0000${to}`;
+  const index = builder.edgeCounts.get(key) ?? 0;
+  builder.edgeCounts.set(key, index + 1);
+  builder.entries.push({ element: { kind: "edge", from, to, index }, range, isDefinition: true });
+}
+
+/** Lines as the renderer reads them: trimmed, without blank and comment lines. */
+function readSourceLines(source: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+  for (const rawLine of source.split("\n")) {
+    const text = rawLine.trim();
+    if (text && !text.startsWith("%%")) lines.push({ text, start: offset + rawLine.indexOf(text) });
+    offset += rawLine.length + 1;
+  }
+  return lines;
+}
+
+function lineRange(line: SourceLine, from = 0, to = line.text.length): TextRange {
+  return { start: line.start + from, end: line.start + to };
+}
+
+// The patterns below mirror beautiful-mermaid's parsers, so that ids and edge
+// order line up with what ends up in the SVG.
+
+const FLOWCHART_ARROW = /^(<)?(-->|-.->|==>|---|-\.-|===)(?:\|([^|]*)\|)?/;
+const FLOWCHART_TEXT_ARROW = /^(<)?(--|-\.|==)\s+(.+?)\s+(-->|---|\.->|-\.-|==>|===)/;
+const FLOWCHART_NODE =
+  /^([\w-]+)(\(\(\(.+?\)\)\)|\(\[.+?\]\)|\(\(.+?\)\)|\[\[.+?\]\]|\[\(.+?\)\]|\[\/.+?\\\]|\[\\.+?\/\]|>.+?\]|\{\{.+?\}\}|\[.+?\]|\(.+?\)|\{.+?\})?(:::\w[\w-]*)?/;
+
+/** Opening delimiters of the shapes above; each label ends with a closer of the same length. */
+const FLOWCHART_SHAPE_OPENER = /^(?:\(\(\(|\(\[|\(\(|\[\[|\[\(|\[\/|\[\\|\{\{|[[({>])/;
+
+/** A node written in a flowchart statement. */
+export type FlowchartNodeMention = {
+  id: string;
+  range: TextRange;
+  /** The label between the shape delimiters, when this mention gives the node a shape. */
+  label: TextRange | null;
+};
+
+/**
+ * A flowchart statement: groups of `&`-joined nodes, with an edge from every
+ * node of a group to every node of the next. `range` runs from the first node
+ * to the end of the last, where the renderer stops reading the line.
+ */
+export type FlowchartStatement = { range: TextRange; groups: FlowchartNodeMention[][] };
+
+type FlowchartLine =
+  { kind: "subgraph"; id: string; range: TextRange } | { kind: "statement"; statement: FlowchartStatement };
+
+function readFlowchartLines(lines: readonly SourceLine[]): FlowchartLine[] {
+  const result: FlowchartLine[] = [];
+  let subgraphDepth = 0;
+  for (const line of lines) {
+    const { text } = line;
+    if (/^(?:classDef\s+\w+\s|class\s+[\w,-]+\s+\w+$|style\s+[\w,-]+\s|linkStyle\s)/.test(text)) continue;
+    if (subgraphDepth > 0 && /^direction\s+(?:TD|TB|LR|BT|RL)\s*$/i.test(text)) continue;
+    const subgraph = /^subgraph\s+(.+)$/.exec(text);
+    if (subgraph) {
+      const rest = subgraph[1]!.trim();
+      const id = /^([\w-]+)\s*\[.+\]$/.exec(rest)?.[1] ?? rest.replace(/\s+/g, "_").replace(/[^\w]/g, "");
+      result.push({ kind: "subgraph", id, range: lineRange(line) });
+      subgraphDepth++;
+      continue;
+    }
+    if (text === "end") {
+      subgraphDepth = Math.max(0, subgraphDepth - 1);
+      continue;
+    }
+    const statement = parseFlowchartStatement(line);
+    if (statement) result.push({ kind: "statement", statement });
+  }
+  return result;
+}
+
+/** A chain like `A[Start] & B --> C -->|yes| D`, up to where the renderer would stop reading it. */
+function parseFlowchartStatement(line: SourceLine): FlowchartStatement | null {
+  const { text } = line;
+  let position = 0;
+  const skipSpace = () => {
+    while (/\s/.test(text[position] ?? "")) position++;
+  };
+  const consumeGroup = () => {
+    const group: FlowchartNodeMention[] = [];
+    for (;;) {
+      const node = FLOWCHART_NODE.exec(text.slice(position));
+      if (!node) break;
+      const [mention, id = "", shape] = node;
+      const shapeStart = position + id.length;
+      const opener = shape ? FLOWCHART_SHAPE_OPENER.exec(shape)![0].length : 0;
+      group.push({
+        id,
+        range: lineRange(line, position, position + mention.length),
+        label: shape ? lineRange(line, shapeStart + opener, shapeStart + shape.length - opener) : null,
+      });
+      position += node[0].length;
+      skipSpace();
+      if (text[position] !== "&") break;
+      position++;
+      skipSpace();
+    }
+    return group;
+  };
+
+  const groups = [consumeGroup()];
+  if (groups[0]!.length === 0) return null;
+  while (position < text.length) {
+    const arrow = FLOWCHART_ARROW.exec(text.slice(position)) ?? FLOWCHART_TEXT_ARROW.exec(text.slice(position));
+    if (!arrow) break;
+    position += arrow[0].length;
+    skipSpace();
+    const next = consumeGroup();
+    if (next.length === 0) break;
+    groups.push(next);
+  }
+  const last = groups.at(-1)!.at(-1)!;
+  return { range: { start: line.start, end: last.range.end }, groups };
+}
+
+function mapFlowchart(lines: readonly SourceLine[], builder: SourceMapBuilder): void {
+  for (const line of readFlowchartLines(lines)) {
+    if (line.kind === "subgraph") {
+      addNode(builder, line.id, line.range, true);
+      continue;
+    }
+    const { groups } = line.statement;
+    for (const [index, group] of groups.entries()) {
+      for (const mention of group) addNode(builder, mention.id, mention.range, mention.label !== null);
+      const previous = groups[index - 1];
+      if (!previous) continue;
+      const range = { start: previous[0]!.range.start, end: group.at(-1)!.range.end };
+      for (const from of previous) {
+        for (const to of group) addEdge(builder, from.id, to.id, range);
+      }
+    }
+  }
+}
+
+function mapStateDiagram(lines: readonly SourceLine[], builder: SourceMapBuilder): void {
+  let starts = 0;
+  let ends = 0;
+  for (const line of lines) {
+    const { text } = line;
+    const declared =
+      /^state\s+(?:"[^"]+"\s+as\s+)?([\w\p{L}]+)\s*\{$/u.exec(text) ??
+      /^state\s+"[^"]+"\s+as\s+([\w\p{L}]+)\s*$/u.exec(text);
+    if (declared) {
+      addNode(builder, declared[1]!, lineRange(line), true);
+      continue;
+    }
+    const transition = /^(\[\*\]|[\w\p{L}-]+)(\s*-->\s*)(\[\*\]|[\w\p{L}-]+)(?:\s*:\s*(.+))?$/u.exec(text);
+    if (transition) {
+      const [, source = "", arrow = "", target = ""] = transition;
+      const from = source === "[*]" ? `_start${++starts > 1 ? starts : ""}` : source;
+      const to = target === "[*]" ? `_end${++ends > 1 ? ends : ""}` : target;
+      const targetStart = source.length + arrow.length;
+      addNode(builder, from, lineRange(line, 0, source.length), source === "[*]");
+      addNode(builder, to, lineRange(line, targetStart, targetStart + target.length), target === "[*]");
+      addEdge(builder, from, to, lineRange(line));
+      continue;
+    }
+    const described = /^([\w\p{L}-]+)\s*:\s*(.+)$/u.exec(text);
+    if (described) addNode(builder, described[1]!, lineRange(line), true);
+  }
+}
+
+const SEQUENCE_MESSAGE_PATTERNS = [
+  /^(\S+?)(\s*(?:--?>?>|--?[)x]|--?>>|--?>)\s*[+-]?)(\S+?)\s*:\s*(.+)$/,
+  /^(\S+?)(\s*(?:->>|-->>|-\)|--\)|-x|--x|->|-->)\s*[+-]?)(\S+?)\s*:\s*(.+)$/,
+];
+
+function mapSequenceDiagram(lines: readonly SourceLine[], builder: SourceMapBuilder): void {
+  for (const line of lines) {
+    const { text } = line;
+    const actor = /^(?:participant|actor)\s+(\S+?)(?:\s+as\s+(.+))?$/.exec(text);
+    if (actor) {
+      addNode(builder, actor[1]!, lineRange(line), true);
+      continue;
+    }
+    if (/^Note\s/i.test(text)) continue;
+    const message = SEQUENCE_MESSAGE_PATTERNS.map(pattern => pattern.exec(text)).find(match => match);
+    if (!message) continue;
+    const [, from = "", arrow = "", to = ""] = message;
+    const targetStart = from.length + arrow.length;
+    addNode(builder, from, lineRange(line, 0, from.length), false);
+    addNode(builder, to, lineRange(line, targetStart, targetStart + to.length), false);
+    addEdge(builder, from, to, lineRange(line));
+  }
+}
+
+const CLASS_RELATION_PATTERN =
+  /^((\S+?)\s+(?:"[^"]*?"\s+)?(<\|--|<\|\.\.|\*--|o--|-->|--\*|--o|--\|>|\.\.>|\.\.\|>|<--|<\.\.?|--)\s+(?:"[^"]*?"\s+)?)(\S+?)(?:\s*:\s*(.+))?$/;
+
+function mapClassDiagram(lines: readonly SourceLine[], builder: SourceMapBuilder): void {
+  let body: { id: string; start: number } | null = null;
+  let inNamespace = false;
+  for (const line of lines) {
+    const { text } = line;
+    if (body) {
+      if (text === "}") {
+        addNode(builder, body.id, { start: body.start, end: line.start + text.length }, true);
+        body = null;
+      }
+      continue;
+    }
+    if (/^namespace\s+\S+\s*\{$/.test(text)) {
+      inNamespace = true;
+      continue;
+    }
+    if (text === "}" && inNamespace) {
+      inNamespace = false;
+      continue;
+    }
+    const block = /^class\s+(\S+?)(?:\s*~\w+~)?\s*\{$/.exec(text);
+    if (block) {
+      body = { id: block[1]!, start: line.start };
+      continue;
+    }
+    const declared = /^class\s+(\S+?)(?:\s*~\w+~)?\s*$/.exec(text) ?? /^class\s+(\S+?)\s*\{\s*<<\w+>>\s*\}$/.exec(text);
+    if (declared) {
+      addNode(builder, declared[1]!, lineRange(line), true);
+      continue;
+    }
+    const member = /^(\S+?)\s*:\s*(.+)$/.exec(text);
+    if (member && !/<\|--|--|\*--|o--|-->|\.\.>|\.\.\|>/.test(member[2]!)) {
+      addNode(builder, member[1]!, lineRange(line), false);
+      continue;
+    }
+    const relation = CLASS_RELATION_PATTERN.exec(text);
+    // `<.` is accepted by the pattern but not by the renderer.
+    if (!relation || relation[3] === "<.") continue;
+    const [, head = "", from = "", , to = ""] = relation;
+    addNode(builder, from, lineRange(line, 0, from.length), false);
+    addNode(builder, to, lineRange(line, head.length, head.length + to.length), false);
+    addEdge(builder, from, to, lineRange(line));
+  }
+  if (body)
+    addNode(builder, body.id, { start: body.start, end: lines.at(-1)!.start + lines.at(-1)!.text.length }, true);
+}
+
+const ER_CARDINALITIES = new Set(["||", "o|", "|}", "{|", "{o", "o{"].map(end => [...end].sort().join("")));
+
+function isErRelationship(operator: string): boolean {
+  const parts = /^([|o}{]+)(?:--|\.\.?)([|o}{]+)$/.exec(operator);
+  return !!parts && [parts[1]!, parts[2]!].every(end => ER_CARDINALITIES.has([...end].sort().join("")));
+}
+
+function mapErDiagram(lines: readonly SourceLine[], builder: SourceMapBuilder): void {
+  let body: { id: string; start: number } | null = null;
+  for (const line of lines) {
+    const { text } = line;
+    if (body) {
+      if (text === "}") {
+        addNode(builder, body.id, { start: body.start, end: line.start + text.length }, true);
+        body = null;
+      }
+      continue;
+    }
+    const block = /^(\S+)\s*\{$/.exec(text);
+    if (block) {
+      body = { id: block[1]!, start: line.start };
+      continue;
+    }
+    const relation = /^((\S+)\s+([|o}{]+(?:--|\.\.)[|o}{]+)\s+)(\S+)\s*:\s*(.+)$/.exec(text);
+    if (!relation || !isErRelationship(relation[3]!)) continue;
+    const [, head = "", from = "", , to = ""] = relation;
+    addNode(builder, from, lineRange(line, 0, from.length), false);
+    addNode(builder, to, lineRange(line, head.length, head.length + to.length), false);
+    addEdge(builder, from, to, lineRange(line));
+  }
+  if (body)
+    addNode(builder, body.id, { start: body.start, end: lines.at(-1)!.start + lines.at(-1)!.text.length }, true);
+}
+
+const MAPPERS = {
+  flowchart: mapFlowchart,
+  state: mapStateDiagram,
+  sequence: mapSequenceDiagram,
+  class: mapClassDiagram,
+  er: mapErDiagram,
+};
+
+/**
+ * Where each node and edge of the rendered diagram is written in `source`.
+ * Ranges cover trimmed statement text; an element mentioned on several lines
+ * gets an entry for each.
+ */
+export function buildSourceMap(source: string): SourceMapEntry[] {
+  const kind = detectDiagramKind(source);
+  if (!kind) return [];
+  const builder: SourceMapBuilder = { entries: [], edgeCounts: new Map() };
+  MAPPERS[kind](readSourceLines(source).slice(1), builder);
+  return builder.entries;
+}
+
+/** The statements of a flowchart source, in order; node definitions inside subgraphs included. */
+export function listFlowchartStatements(source: string): FlowchartStatement[] {
+  return readFlowchartLines(readSourceLines(source).slice(1)).flatMap(line =>
+    line.kind === "statement" ? [line.statement] : [],
+  );
+}
+
+export function isSameElement(a: DiagramElementRef, b: DiagramElementRef): boolean {
+  if (a.kind === "node") return b.kind === "node" && a.id === b.id;
+  return b.kind === "edge" && a.from === b.from && a.to === b.to && a.index === b.index;
+}
+
+/**
+ * Elements whose source contains `selection`. A node mention wins over the
+ * statement around it, so the caret on `B` in `A --> B` picks out just `B`,
+ * while selecting the whole statement picks out the edge.
+ */
+export function findElementsAt(entries: readonly SourceMapEntry[], selection: TextRange): DiagramElementRef[] {
+  const hits = entries.filter(({ range }) => selection.start >= range.start && selection.end <= range.end);
+  const nodes = hits.filter(({ element }) => element.kind === "node");
+  const elements: DiagramElementRef[] = [];
+  for (const { element } of nodes.length > 0 ? nodes : hits) {
+    if (!elements.some(existing => isSameElement(existing, element))) elements.push(element);
+  }
+  return elements;
+}
+
+/** The entry to select for an element: its first definition, or else its first mention. */
+export function findElementSource(
+  entries: readonly SourceMapEntry[],
+  element: DiagramElementRef,
+): SourceMapEntry | null {
+  const matches = entries.filter(entry => isSameElement(entry.element, element));
+  return matches.find(entry => entry.isDefinition) ?? matches[0] ?? null;
+}
+
+const EDGE_CLASSES = ["edge", "edge-label", "message", "class-relationship", "er-relationship"] as const;
+
+function readEdgeEnds(element: Element): { from: string; to: string } | null {
+  const from = element.getAttribute("data-from") ?? element.getAttribute("data-entity1");
+  const to = element.getAttribute("data-to") ?? element.getAttribute("data-entity2");
+  return from !== null && to !== null ? { from, to } : null;
+}
+
+function findEdgeElements(root: Element, edgeClass: string, from: string, to: string): Element[] {
+  return Array.from(root.querySelectorAll(`.${edgeClass}`)).filter(element => {
+    const ends = readEdgeEnds(element);
+    return ends?.from === from && ends.to === to;
+  });
+}
+
+/** The diagram element an SVG element inside `root` belongs to, if any. */
+export function getDiagramElementRef(target: Element, root: Element): DiagramElementRef | null {
+  const element = target.closest("[data-id], [data-actor], [data-from], [data-entity1]");
+  if (!element || !root.contains(element)) return null;
+  const id = element.getAttribute("data-id") ?? element.getAttribute("data-actor");
+  if (id !== null) return { kind: "node", id };
+  const ends = readEdgeEnds(element);
+  const edgeClass = EDGE_CLASSES.find(name => element.classList.contains(name));
+  if (!ends || !edgeClass) return null;
+  const index = findEdgeElements(root, edgeClass, ends.from, ends.to).indexOf(element);
+  return index === -1 ? null : { kind: "edge", ...ends, index };
+}
+
+/** SVG elements drawing `element`: a node's shape (and a lifeline), or an edge's line and label. */
+export function findDiagramElements(root: Element, element: DiagramElementRef): Element[] {
+  if (element.kind === "node") {
+    const id = CSS.escape(element.id);
+    return Array.from(root.querySelectorAll(`[data-id="${id}"], [data-actor="${id}"]`));
+  }
+  return EDGE_CLASSES.flatMap(edgeClass => {
+    const match = findEdgeElements(root, edgeClass, element.from, element.to)[element.index];
+    return match ? [match] : [];
+  });
+}
@@ -0,0 +1,63 @@
+import { escapeHtml } from "./highlight";
+import { isRenderStyle, parseRenderLayout, type RenderLayout, type RenderStyle } from "./render";
+
+/** What an exported SVG needs to reopen as the same diagram. */
+export type StudioSvgMetadata = {
+  source: string;
+  /** Built-in theme name or custom theme id. */
+  theme: string;
+  /** Built-in theme to fall back to when a custom theme is not saved here. */
+  baseTheme: string;
+  style: RenderStyle;
+  /** Without the embedded font, which the SVG already carries in its stylesheet. */
+  layout?: RenderLayout;
+};
+
+const METADATA_ID = "mermaid-studio-source";
+const METADATA_VERSION = 1;
+const METADATA_PATTERN = new RegExp(`<metadata\\s+id="${METADATA_ID}"[^>]*>([\\s\\S]*?)</metadata>`);
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number.parseInt(code, 10)))
+    .replace(/&(lt|gt|quot|apos);/g, (_match, name: string) => ({ lt: "<", gt: ">", quot: '"', apos: "'" })[name]!)
+    .replaceAll("&amp;", "&");
+}
+
+/** Add the diagram's source, theme and style as a `<metadata>` element right inside the root. */
+export function embedStudioMetadata(svgMarkup: string, metadata: StudioSvgMetadata): string {
+  const rootEnd = /<svg\b[^>]*>/.exec(svgMarkup);
+  if (!rootEnd) return svgMarkup;
+  const { embeddedFont: _embeddedFont, ...layout } = metadata.layout ?? {};
+  const payload = JSON.stringify({
+    version: METADATA_VERSION,
+    ...metadata,
+    layout: Object.keys(layout).length > 0 ? layout : undefined,
+  });
+  // Parentheses are escaped too, so CSS variable inlining never mistakes source text for `var(...)`.
+  const element = `\n<metadata id="${METADATA_ID}">${escapeHtml(payload).replaceAll("(", "&#40;")}</metadata>`;
+  const insertAt = rootEnd.index + rootEnd[0].length;
+  return `${svgMarkup.slice(0, insertAt)}${element}${svgMarkup.slice(insertAt)}`;
+}
+
+/** Metadata written by {@link embedStudioMetadata}, or null if the SVG has none that parses. */
+export function readStudioMetadata(svgMarkup: string): StudioSvgMetadata | null {
+  const match = METADATA_PATTERN.exec(svgMarkup);
+  if (!match) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(decodeXmlText(match[1]!));
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.source !== "string" || typeof record.theme !== "string") return null;
+  return {
+    source: record.source,
+    theme: record.theme,
+    baseTheme: typeof record.baseTheme === "string" ? record.baseTheme : record.theme,
+    style: typeof record.style === "string" && isRenderStyle(record.style) ? record.style : "svg",
+    layout: parseRenderLayout(record.layout),
+  };
+}
@@ -0,0 +1,246 @@
+import { mixHexColors, parseHexColor } from "./color";
+
+export type SvgSize = { width: number; height: number };
+
+/** What exports paint behind the diagram. */
+export type ExportBackground = "theme" | "transparent" | "custom";
+
+/** Background and extra margin applied to every SVG and PNG export. */
+export type ExportFrame = {
+  background: ExportBackground;
+  /** Hex color used when `background` is `"custom"`. */
+  color: string;
+  /** Extra space around the diagram, in SVG user units. */
+  margin: number;
+};
+
+export const DEFAULT_EXPORT_FRAME: ExportFrame = { background: "theme", color: "#ffffff", margin: 0 };
+
+type ViewBox = SvgSize & { x: number; y: number };
+
+const ROOT_SVG_PATTERN = /<svg\b[^>]*>/;
+const MAX_RESOLVE_DEPTH = 16;
+
+function getRootSvgTag(svgMarkup: string): string | null {
+  return ROOT_SVG_PATTERN.exec(svgMarkup)?.[0] ?? null;
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(tag);
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+/** Set an attribute on an opening tag, adding it if missing. */
+function writeAttribute(tag: string, name: string, value: string | number): string {
+  const attribute = new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*')`);
+  return attribute.test(tag)
+    ? tag.replace(attribute, `$1"${value}"`)
+    : tag.replace(/^<svg\b/, `<svg ${name}="${value}"`);
+}
+
+function readViewBox(tag: string): ViewBox | null {
+  const viewBox = readAttribute(tag, "viewBox");
+  if (!viewBox) return null;
+  const values = viewBox.trim().split(/\s+/).map(Number.parseFloat).filter(Number.isFinite);
+  if (values.length !== 4 || values[2]! <= 0 || values[3]! <= 0) return null;
+  return { x: values[0]!, y: values[1]!, width: values[2]!, height: values[3]! };
+}
+
+function readSizeAttributes(tag: string): SvgSize | null {
+  const width = Number.parseFloat(readAttribute(tag, "width") ?? "");
+  const height = Number.parseFloat(readAttribute(tag, "height") ?? "");
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Intrinsic size of a rendered diagram: the viewBox when it is usable,
+ * otherwise the root `width`/`height` attributes.
+ */
+export function extractSvgSize(svgMarkup: string): SvgSize | null {
+  const svg = getRootSvgTag(svgMarkup);
+  if (!svg) return null;
+  const viewBox = readViewBox(svg);
+  return viewBox ? { width: viewBox.width, height: viewBox.height } : readSizeAttributes(svg);
+}
+
+/** Replace the root `width`/`height` attributes, adding them if missing. */
+export function setSvgSize(svgMarkup: string, size: SvgSize): string {
+  const svg = getRootSvgTag(svgMarkup);
+  if (!svg) return svgMarkup;
+  const nextTag = writeAttribute(writeAttribute(svg, "width", size.width), "height", size.height);
+  return svgMarkup.replace(svg, nextTag);
+}
+
+function roundLength(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Apply export background and margin to a rendered diagram. The margin grows
+ * the viewBox (and the root size with it), so the background fills it too.
+ */
+export function applyExportFrame(svgMarkup: string, frame: ExportFrame): string {
+  const svg = getRootSvgTag(svgMarkup);
+  if (!svg) return svgMarkup;
+  let nextTag = svg;
+
+  if (frame.background !== "theme") {
+    const declarations = (readAttribute(svg, "style") ?? "")
+      .split(";")
+      .map(declaration => declaration.trim())
+      .filter(declaration => declaration && !/^background(?:-color)?\s*:/.test(declaration));
+    if (frame.background === "custom") declarations.push(`background:${frame.color}`);
+    nextTag = writeAttribute(nextTag, "style", declarations.join(";"));
+  }
+
+  const size = readSizeAttributes(svg);
+  const viewBox = readViewBox(svg) ?? (size ? { x: 0, y: 0, ...size } : null);
+  if (frame.margin > 0 && viewBox) {
+    const margin = frame.margin;
+    // Keep the ratio between the root size and the viewBox when both are set.
+    const scale = size ? size.width / viewBox.width : 1;
+    nextTag = writeAttribute(
+      nextTag,
+      "viewBox",
+      [viewBox.x - margin, viewBox.y - margin, viewBox.width + margin * 2, viewBox.height + margin * 2]
+        .map(roundLength)
+        .join(" "),
+    );
+    nextTag = writeAttribute(nextTag, "width", roundLength((viewBox.width + margin * 2) * scale));
+    nextTag = writeAttribute(nextTag, "height", roundLength((viewBox.height + margin * 2) * scale));
+  }
+
+  return svgMarkup.replace(svg, nextTag);
+}
+
+function findClosingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let index = openIndex; index < text.length; index++) {
+    if (text[index] === "(") depth++;
+    else if (text[index] === ")" && --depth === 0) return index;
+  }
+  return -1;
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === "(") depth++;
+    else if (char === ")") depth--;
+    else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+function evaluateColorMix(args: string[]): string | null {
+  // Only the sRGB form beautiful-mermaid emits: color-mix(in srgb, A p%, B [q%])
+  if (args.length !== 3 || args[0] !== "in srgb") return null;
+  const parseStop = (stop: string) => {
+    const match = /^(.*?)(?:\s+([\d.]+)%)?$/.exec(stop)!;
+    return { color: match[1]!.trim(), percent: match[2] ? Number.parseFloat(match[2]) : null };
+  };
+  const first = parseStop(args[1]!);
+  const second = parseStop(args[2]!);
+  if (!parseHexColor(first.color) || !parseHexColor(second.color)) return null;
+  const percent = first.percent ?? (second.percent !== null ? 100 - second.percent : 50);
+  return mixHexColors(first.color, second.color, percent);
+}
+
+function resolveCssValue(value: string, properties: Map<string, string>, depth: number): string {
+  if (depth > MAX_RESOLVE_DEPTH) return value;
+  let output = "";
+  let cursor = 0;
+  const pattern = /\b(var|color-mix)\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value))) {
+    const openIndex = match.index + match[1]!.length;
+    const closeIndex = findClosingParen(value, openIndex);
+    if (closeIndex === -1) break;
+    const args = splitTopLevel(value.slice(openIndex + 1, closeIndex));
+    let replacement: string | null;
+    if (match[1] === "var") {
+      const [name, ...fallback] = args;
+      const declared = properties.get(name!);
+      const raw = declared ?? (fallback.length > 0 ? fallback.join(", ") : null);
+      replacement = raw === null ? null : resolveCssValue(raw, properties, depth + 1);
+    } else {
+      replacement = evaluateColorMix(args.map(arg => resolveCssValue(arg, properties, depth + 1)));
+    }
+    output += value.slice(cursor, match.index) + (replacement ?? value.slice(match.index, closeIndex + 1));
+    cursor = closeIndex + 1;
+    pattern.lastIndex = cursor;
+  }
+  return output + value.slice(cursor);
+}
+
+function collectCustomProperties(declarations: string, properties: Map<string, string>): void {
+  for (const match of declarations.matchAll(/(--[\w-]+)\s*:\s*([^;]+)/g)) {
+    properties.set(match[1]!, match[2]!.trim());
+  }
+}
+
+/**
+ * Resolve the CSS custom properties and `color-mix()` calls beautiful-mermaid
+ * emits into literal colors, for consumers that do not evaluate CSS
+ * variables (rasterizers, some editors and email clients).
+ */
+export function inlineSvgCustomProperties(svgMarkup: string): string {
+  const properties = new Map<string, string>();
+  for (const match of svgMarkup.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/g)) {
+    collectCustomProperties(match[1]!, properties);
+  }
+  const rootTag = getRootSvgTag(svgMarkup);
+  const rootStyle = rootTag ? readAttribute(rootTag, "style") : null;
+  // Inline declarations on the root element win over the stylesheet.
+  if (rootStyle) collectCustomProperties(rootStyle, properties);
+
+  return resolveCssValue(svgMarkup, properties, 0);
+}
+
+/** Add declarations to the end of the root element's inline style. */
+export function appendSvgRootStyle(svgMarkup: string, declarations: string): string {
+  const svg = getRootSvgTag(svgMarkup);
+  if (!svg) return svgMarkup;
+  const style = (readAttribute(svg, "style") ?? "").trim().replace(/;?$/, ";");
+  return svgMarkup.replace(svg, writeAttribute(svg, "style", `${style === ";" ? "" : style}${declarations}`));
+}
+
+/** The root element's `background` color, if it sets one. */
+export function readSvgBackground(svgMarkup: string): string | null {
+  const rootTag = getRootSvgTag(svgMarkup);
+  const rootStyle = rootTag ? readAttribute(rootTag, "style") : null;
+  const match = rootStyle ? /(?:^|;)\s*background(?:-color)?\s*:\s*([^;]+)/.exec(rootStyle) : null;
+  return match ? match[1]!.trim() : null;
+}
+
+/**
+ * Add an `@font-face` for an uploaded font to the diagram stylesheet. The
+ * Google Fonts import for the same family is dropped, since it cannot serve it.
+ */
+export function embedFontFace(svgMarkup: string, font: { family: string; dataUrl: string }): string {
+  const styleStart = svgMarkup.indexOf("<style>");
+  const styleEnd = svgMarkup.indexOf("</style>", styleStart);
+  if (styleStart === -1 || styleEnd === -1) return svgMarkup;
+
+  const familyQuery = `family=${encodeURIComponent(font.family)}:`;
+  const lines = svgMarkup
+    .slice(styleStart + "<style>".length, styleEnd)
+    .split("\n")
+    .filter(line => !(line.includes("@import") && line.includes(familyQuery)));
+  // @import rules must stay first, so the font face goes after any that remain.
+  const firstRule = lines.findIndex(line => line.trim() !== "" && !line.trim().startsWith("@import"));
+  const family = font.family.replaceAll("'", "\\'");
+  lines.splice(
+    firstRule === -1 ? lines.length : firstRule,
+    0,
+    `  @font-face { font-family: '${family}'; src: url("${font.dataUrl}"); }`,
+  );
+  return `${svgMarkup.slice(0, styleStart)}<style>${lines.join("\n")}${svgMarkup.slice(styleEnd)}`;
+}
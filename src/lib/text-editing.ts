@@ -0,0 +1,186 @@
+import type { TextRange } from "./snippets";
+
+/** The result of an editor command: the new source and where the selection goes. */
+export type TextEdit = { source: string; selection: TextRange };
+
+export const INDENT = "  ";
+
+const CLOSING_BRACKETS: Record<string, string> = { "[": "]", "(": ")", "{": "}" };
+const OPENING_BRACKETS: Record<string, string> = { "]": "[", ")": "(", "}": "{" };
+const QUOTES = new Set(['"', "'", "`"]);
+const COMMENT_PREFIX = "%%";
+/** How far bracket matching looks before giving up, so huge sources stay responsive. */
+const MAX_BRACKET_SCAN = 20_000;
+
+/** Offsets of the first and last line the selection touches. */
+function getSelectedLines(source: string, selection: TextRange): { start: number; end: number } {
+  const start = source.lastIndexOf("\n", selection.start - 1) + 1;
+  // A selection that ends at the start of a line leaves that line alone.
+  const last =
+    selection.end > selection.start && source[selection.end - 1] === "\n" ? selection.end - 1 : selection.end;
+  const lineEnd = source.indexOf("\n", last);
+  return { start, end: lineEnd === -1 ? source.length : lineEnd };
+}
+
+/**
+ * How far an edit at `changeAt` moves `position`: insertions push it along
+ * (at the edit point only when `moveAtChange`), removals pull it back but
+ * never past the edit point.
+ */
+function getPositionShift(position: number, changeAt: number, delta: number, moveAtChange: boolean): number {
+  if (delta >= 0) return position > changeAt || (position === changeAt && moveAtChange) ? delta : 0;
+  if (position <= changeAt) return 0;
+  return position >= changeAt - delta ? delta : changeAt - position;
+}
+
+/**
+ * Rewrite each line the selection touches, keeping the selection on the same
+ * text. `transform` returns the new line and where, within the old line, the
+ * change happened.
+ */
+function editSelectedLines(
+  source: string,
+  selection: TextRange,
+  transform: (line: string) => { text: string; at: number },
+): TextEdit {
+  const range = getSelectedLines(source, selection);
+  const lines = source.slice(range.start, range.end).split("\n");
+  let offset = range.start;
+  let text = "";
+  let startShift = 0;
+  let endShift = 0;
+  for (const [index, line] of lines.entries()) {
+    const edited = transform(line);
+    const delta = edited.text.length - line.length;
+    const changeAt = offset + edited.at;
+    // A selection starting at the edit grows to include it; a bare caret moves with the text.
+    startShift += getPositionShift(selection.start, changeAt, delta, selection.start === selection.end);
+    endShift += getPositionShift(selection.end, changeAt, delta, true);
+    text += (index > 0 ? "\n" : "") + edited.text;
+    offset += line.length + 1;
+  }
+  return {
+    source: source.slice(0, range.start) + text + source.slice(range.end),
+    selection: { start: selection.start + startShift, end: selection.end + endShift },
+  };
+}
+
+/**
+ * Tab and Shift+Tab: a caret without a selection gets an indent inserted;
+ * otherwise every touched line is indented or outdented by one level.
+ */
+export function indentSelection(source: string, selection: TextRange, outdent: boolean): TextEdit {
+  if (!outdent && selection.start === selection.end) {
+    return {
+      source: source.slice(0, selection.start) + INDENT + source.slice(selection.end),
+      selection: { start: selection.start + INDENT.length, end: selection.start + INDENT.length },
+    };
+  }
+  return editSelectedLines(source, selection, line => {
+    if (outdent) {
+      const removed = /^(?: {1,2}|\t)/.exec(line)?.[0].length ?? 0;
+      return { text: line.slice(removed), at: 0 };
+    }
+    return { text: line.trim() ? INDENT + line : line, at: 0 };
+  });
+}
+
+/**
+ * Comment the touched lines out with `%%` at their shared indentation, or
+ * uncomment them when every non-blank line already is.
+ */
+export function toggleLineComment(source: string, selection: TextRange): TextEdit {
+  const range = getSelectedLines(source, selection);
+  const lines = source.slice(range.start, range.end).split("\n");
+  const filled = lines.filter(line => line.trim());
+  if (filled.length === 0) return { source, selection };
+  const isCommented = filled.every(line => line.trimStart().startsWith(COMMENT_PREFIX));
+  const indent = Math.min(...filled.map(line => line.length - line.trimStart().length));
+  return editSelectedLines(source, selection, line => {
+    if (!line.trim()) return { text: line, at: 0 };
+    if (isCommented) {
+      const at = line.length - line.trimStart().length;
+      const length = line.startsWith(`${COMMENT_PREFIX} `, at) ? COMMENT_PREFIX.length + 1 : COMMENT_PREFIX.length;
+      return { text: line.slice(0, at) + line.slice(at + length), at };
+    }
+    return { text: `${line.slice(0, indent)}${COMMENT_PREFIX} ${line.slice(indent)}`, at: indent };
+  });
+}
+
+/**
+ * Brackets and quotes typed as pairs: an opener wraps a selection or adds
+ * its closer, and typing a closer that is already next just steps over it.
+ * Null leaves the keystroke to the textarea.
+ */
+export function insertPairedCharacter(source: string, selection: TextRange, character: string): TextEdit | null {
+  const { start, end } = selection;
+  const next = source[end] ?? "";
+  const closer = CLOSING_BRACKETS[character] ?? (QUOTES.has(character) ? character : undefined);
+
+  if (start === end && next === character && (OPENING_BRACKETS[character] || QUOTES.has(character))) {
+    return { source, selection: { start: end + 1, end: end + 1 } };
+  }
+  if (!closer) return null;
+  if (start !== end) {
+    return {
+      source: source.slice(0, start) + character + source.slice(start, end) + closer + source.slice(end),
+      selection: { start: start + 1, end: end + 1 },
+    };
+  }
+
+  const previous = source[start - 1] ?? "";
+  if (next && !/[\s\])}]/.test(next)) return null;
+  if (QUOTES.has(character) && /\w/.test(previous)) return null;
+  // `o{` and `|{` close ER cardinality markers rather than open a block.
+  if (character === "{" && /(?:--|\.\.)[|o]$/.test(source.slice(Math.max(0, start - 3), start))) return null;
+  return {
+    source: source.slice(0, start) + character + closer + source.slice(end),
+    selection: { start: start + 1, end: start + 1 },
+  };
+}
+
+/** Backspace between an empty pair removes both halves; null otherwise. */
+export function deletePair(source: string, selection: TextRange): TextEdit | null {
+  const { start, end } = selection;
+  if (start !== end || start === 0) return null;
+  const previous = source[start - 1]!;
+  const closer = CLOSING_BRACKETS[previous] ?? (QUOTES.has(previous) ? previous : undefined);
+  if (!closer || source[start] !== closer) return null;
+  return {
+    source: source.slice(0, start - 1) + source.slice(start + 1),
+    selection: { start: start - 1, end: start - 1 },
+  };
+}
+
+function scanForBracket(source: string, from: number, open: string, close: string, step: 1 | -1): number {
+  let depth = 0;
+  const limit = step === 1 ? Math.min(source.length, from + MAX_BRACKET_SCAN) : Math.max(-1, from - MAX_BRACKET_SCAN);
+  for (let index = from; index !== limit; index += step) {
+    const character = source[index];
+    if (character === (step === 1 ? open : close)) depth++;
+    else if (character === (step === 1 ? close : open) && --depth === 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * The bracket next to the caret (before it first, then after it) and its
+ * partner, as offsets; null when neither side is a bracket or it is unmatched.
+ */
+export function findMatchingBracket(source: string, caret: number): [number, number] | null {
+  for (const index of [caret - 1, caret]) {
+    const character = source[index];
+    if (!character) continue;
+    const close = CLOSING_BRACKETS[character];
+    if (close) {
+      const partner = scanForBracket(source, index, character, close, 1);
+      return partner === -1 ? null : [index, partner];
+    }
+    const open = OPENING_BRACKETS[character];
+    if (open) {
+      const partner = scanForBracket(source, index, open, character, -1);
+      return partner === -1 ? null : [partner, index];
+    }
+  }
+  return null;
+}
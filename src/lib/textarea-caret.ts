@@ -0,0 +1,61 @@
+/** Styles that decide where text wraps and how tall lines are, copied to the measuring mirror. */
+const MIRRORED_PROPERTIES = [
+  "boxSizing",
+  "width",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "fontFamily",
+  "fontSize",
+  "fontStyle",
+  "fontVariant",
+  "fontWeight",
+  "fontStretch",
+  "lineHeight",
+  "letterSpacing",
+  "wordSpacing",
+  "tabSize",
+  "textIndent",
+  "textTransform",
+  "whiteSpace",
+  "wordBreak",
+  "overflowWrap",
+] as const;
+
+/**
+ * Where `offset` sits inside a textarea, in pixels from its top-left corner
+ * and accounting for scroll, measured with an off-screen copy of its text.
+ */
+export function getTextareaCaretPosition(
+  textarea: HTMLTextAreaElement,
+  offset: number,
+): { top: number; left: number; height: number } {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement("div");
+  for (const property of MIRRORED_PROPERTIES) mirror.style[property] = style[property];
+  mirror.style.position = "absolute";
+  mirror.style.visibility = "hidden";
+  mirror.style.top = "0";
+  mirror.style.left = "-9999px";
+  mirror.style.overflow = "hidden";
+  mirror.style.whiteSpace = "pre-wrap";
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement("span");
+  // The rest of the text keeps wrapping identical to the textarea's.
+  marker.textContent = textarea.value.slice(offset) || ".";
+  mirror.append(marker);
+  document.body.append(mirror);
+  const lineHeight = Number.parseFloat(style.lineHeight);
+  const position = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    height: Number.isFinite(lineHeight) ? lineHeight : marker.offsetHeight,
+  };
+  mirror.remove();
+  return position;
+}
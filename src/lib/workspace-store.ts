@@ -0,0 +1,178 @@
+import { sanitizeCustomThemes, type CustomTheme } from "./custom-themes";
+import type { DocumentFileLink } from "./file-access";
+import { isRenderStyle, parseRenderLayout } from "./render";
+import { sortDocuments, type WorkspaceDocument } from "./workspace";
+
+const DB_NAME = "mermaid-studio";
+const DB_VERSION = 3;
+const DOCUMENTS_STORE = "documents";
+const SESSION_STORE = "session";
+const THEMES_STORE = "themes";
+const FILE_LINKS_STORE = "fileLinks";
+const ACTIVE_DOCUMENT_KEY = "activeDocumentId";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted."));
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed."));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Local storage for diagrams is not available in this browser."));
+  }
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        database.createObjectStore(DOCUMENTS_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(SESSION_STORE)) {
+        database.createObjectStore(SESSION_STORE);
+      }
+      if (!database.objectStoreNames.contains(THEMES_STORE)) {
+        database.createObjectStore(THEMES_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(FILE_LINKS_STORE)) {
+        database.createObjectStore(FILE_LINKS_STORE, { keyPath: "documentId" });
+      }
+    };
+    databasePromise = requestToPromise(request);
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function isWorkspaceDocument(value: unknown): value is WorkspaceDocument {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === "string" &&
+    typeof record.name === "string" &&
+    typeof record.source === "string" &&
+    typeof record.theme === "string" &&
+    typeof record.style === "string" &&
+    isRenderStyle(record.style) &&
+    typeof record.createdAt === "number" &&
+    typeof record.updatedAt === "number"
+  );
+}
+
+function isFileHandle(value: unknown): value is FileSystemFileHandle {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as FileSystemHandle).kind === "file" &&
+    typeof (value as FileSystemHandle).name === "string"
+  );
+}
+
+function isDocumentFileLink(value: unknown): value is DocumentFileLink {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.documentId === "string" &&
+    isFileHandle(record.file) &&
+    (record.svg === undefined || isFileHandle(record.svg)) &&
+    (record.png === undefined || isFileHandle(record.png)) &&
+    typeof record.autosave === "boolean"
+  );
+}
+
+export async function loadWorkspace(): Promise<{
+  documents: WorkspaceDocument[];
+  activeDocumentId: string | null;
+}> {
+  const database = await openDatabase();
+  const transaction = database.transaction([DOCUMENTS_STORE, SESSION_STORE], "readonly");
+  const [records, activeDocumentId] = await Promise.all([
+    requestToPromise(transaction.objectStore(DOCUMENTS_STORE).getAll()),
+    requestToPromise(transaction.objectStore(SESSION_STORE).get(ACTIVE_DOCUMENT_KEY)),
+  ]);
+  return {
+    documents: sortDocuments(
+      records
+        .filter(isWorkspaceDocument)
+        .map(document => ({ ...document, layout: parseRenderLayout(document.layout) })),
+    ),
+    activeDocumentId: typeof activeDocumentId === "string" ? activeDocumentId : null,
+  };
+}
+
+export async function putDocument(document: WorkspaceDocument): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(DOCUMENTS_STORE, "readwrite");
+  transaction.objectStore(DOCUMENTS_STORE).put(document);
+  await transactionDone(transaction);
+}
+
+export async function removeDocument(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([DOCUMENTS_STORE, FILE_LINKS_STORE], "readwrite");
+  transaction.objectStore(DOCUMENTS_STORE).delete(id);
+  transaction.objectStore(FILE_LINKS_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function saveActiveDocumentId(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(SESSION_STORE, "readwrite");
+  transaction.objectStore(SESSION_STORE).put(id, ACTIVE_DOCUMENT_KEY);
+  await transactionDone(transaction);
+}
+
+export async function loadCustomThemes(): Promise<CustomTheme[]> {
+  const database = await openDatabase();
+  const transaction = database.transaction(THEMES_STORE, "readonly");
+  const records = await requestToPromise(transaction.objectStore(THEMES_STORE).getAll());
+  return sanitizeCustomThemes(records).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function putCustomTheme(theme: CustomTheme): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(THEMES_STORE, "readwrite");
+  transaction.objectStore(THEMES_STORE).put(theme);
+  await transactionDone(transaction);
+}
+
+export async function removeCustomTheme(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(THEMES_STORE, "readwrite");
+  transaction.objectStore(THEMES_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function loadFileLinks(): Promise<DocumentFileLink[]> {
+  const database = await openDatabase();
+  const transaction = database.transaction(FILE_LINKS_STORE, "readonly");
+  const records = await requestToPromise(transaction.objectStore(FILE_LINKS_STORE).getAll());
+  return records.filter(isDocumentFileLink);
+}
+
+export async function putFileLink(link: DocumentFileLink): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(FILE_LINKS_STORE, "readwrite");
+  transaction.objectStore(FILE_LINKS_STORE).put(link);
+  await transactionDone(transaction);
+}
+
+export async function removeFileLink(documentId: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(FILE_LINKS_STORE, "readwrite");
+  transaction.objectStore(FILE_LINKS_STORE).delete(documentId);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,46 @@
+import type { StoredHistory } from "./history";
+import type { RenderLayout, RenderStyle } from "./render";
+
+/** A named diagram in the workspace, persisted as one IndexedDB record. */
+export type WorkspaceDocument = {
+  id: string;
+  name: string;
+  source: string;
+  theme: string;
+  style: RenderStyle;
+  layout?: RenderLayout;
+  /** Undo/redo states; older records may not have one. */
+  history?: StoredHistory;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const UNTITLED_DOCUMENT_NAME = "Untitled";
+
+function createDocumentId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createWorkspaceDocument(
+  fields: Pick<WorkspaceDocument, "name" | "source" | "theme" | "style" | "layout">,
+): WorkspaceDocument {
+  const now = Date.now();
+  return { ...fields, id: createDocumentId(), createdAt: now, updatedAt: now };
+}
+
+/** `base`, or `base 2`, `base 3`, … whichever is not taken yet. */
+export function getUniqueDocumentName(base: string, documents: readonly { name: string }[]): string {
+  const taken = new Set(documents.map(document => document.name));
+  if (!taken.has(base)) return base;
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${base} ${suffix}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+export function sortDocuments(documents: readonly WorkspaceDocument[]): WorkspaceDocument[] {
+  return [...documents].sort((a, b) => a.createdAt - b.createdAt);
+}
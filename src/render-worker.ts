@@ -0,0 +1,45 @@
+import { runRenderJob, type RenderWorkerRequest, type RenderWorkerResponse } from "./lib/render-jobs";
+
+/**
+ * Render worker: runs beautiful-mermaid and Shiki off the main thread.
+ * Requests cancelled before they start are skipped, and results of requests
+ * cancelled mid-run are dropped.
+ */
+
+const cancelled = new Set<number>();
+
+function respond(response: RenderWorkerResponse) {
+  self.postMessage(response);
+}
+
+async function run({ id, job }: Extract<RenderWorkerRequest, { type: "run" }>) {
+  // Let cancel messages that are already queued arrive before starting.
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (cancelled.delete(id)) {
+    respond({ id, status: "cancelled" });
+    return;
+  }
+
+  const start = performance.now();
+  try {
+    const result = await runRenderJob(job);
+    const durationMs = performance.now() - start;
+    respond(cancelled.delete(id) ? { id, status: "cancelled" } : { id, status: "done", result, durationMs });
+  } catch (error) {
+    const durationMs = performance.now() - start;
+    if (cancelled.delete(id)) {
+      respond({ id, status: "cancelled" });
+      return;
+    }
+    respond({ id, status: "failed", message: error instanceof Error ? error.message : String(error), durationMs });
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<RenderWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    cancelled.add(request.id);
+    return;
+  }
+  void run(request);
+});
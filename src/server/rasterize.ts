@@ -0,0 +1,70 @@
+import { extractSvgSize, inlineSvgCustomProperties, readSvgBackground, setSvgSize } from "@/lib/svg";
+import { initWasm, Resvg } from "@resvg/resvg-wasm";
+
+/** Largest output the server will allocate, in pixels (about 16k × 6k). */
+export const MAX_PNG_PIXELS = 100_000_000;
+
+// Fonts the studio's SVGs ask for: DM Sans for labels, JetBrains Mono for
+// class/ER member rows. resvg cannot fetch the Google Fonts @import.
+const FONT_FILES = [
+  "@expo-google-fonts/dm-sans/400Regular/DMSans_400Regular.ttf",
+  "@expo-google-fonts/dm-sans/500Medium/DMSans_500Medium.ttf",
+  "@expo-google-fonts/dm-sans/600SemiBold/DMSans_600SemiBold.ttf",
+  "@expo-google-fonts/dm-sans/700Bold/DMSans_700Bold.ttf",
+  "@expo-google-fonts/jetbrains-mono/400Regular/JetBrainsMono_400Regular.ttf",
+  "@expo-google-fonts/jetbrains-mono/500Medium/JetBrainsMono_500Medium.ttf",
+];
+
+let rasterizerPromise: Promise<Uint8Array[]> | null = null;
+
+function loadRasterizer(): Promise<Uint8Array[]> {
+  if (!rasterizerPromise) {
+    rasterizerPromise = (async () => {
+      const wasmPath = Bun.resolveSync("@resvg/resvg-wasm/index_bg.wasm", import.meta.dir);
+      await initWasm(await Bun.file(wasmPath).arrayBuffer());
+      return Promise.all(
+        FONT_FILES.map(
+          async file => new Uint8Array(await Bun.file(Bun.resolveSync(file, import.meta.dir)).arrayBuffer()),
+        ),
+      );
+    })();
+    rasterizerPromise.catch(() => {
+      rasterizerPromise = null;
+    });
+  }
+  return rasterizerPromise;
+}
+
+/**
+ * Rasterize a rendered diagram to PNG the way the browser export does: the
+ * canvas is the `extractSvgSize` size times `scale`, rounded, at least 1px.
+ */
+export async function rasterizeSvgToPng(svg: string, scale: number): Promise<Uint8Array<ArrayBuffer>> {
+  const size = extractSvgSize(svg);
+  if (!size) {
+    throw new Error("Could not calculate PNG dimensions from rendered SVG.");
+  }
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+  if (width * height > MAX_PNG_PIXELS) {
+    throw new Error(`PNG would be ${width}×${height}px, which exceeds the ${MAX_PNG_PIXELS} pixel limit.`);
+  }
+
+  const fontBuffers = await loadRasterizer();
+  const flattened = setSvgSize(inlineSvgCustomProperties(svg), { width, height });
+  const resvg = new Resvg(flattened, {
+    fitTo: { mode: "original" },
+    background: readSvgBackground(flattened) ?? undefined,
+    font: { fontBuffers, defaultFontFamily: "DM Sans", sansSerifFamily: "DM Sans", monospaceFamily: "JetBrains Mono" },
+  });
+  try {
+    const image = resvg.render();
+    try {
+      return new Uint8Array(image.asPng());
+    } finally {
+      image.free();
+    }
+  } finally {
+    resvg.free();
+  }
+}
@@ -0,0 +1,195 @@
+import { decodeDiagramToken } from "@/lib/share-link";
+import {
+  getRenderOptions,
+  isPngScale,
+  isRenderStyle,
+  isThemeName,
+  PNG_SCALES,
+  renderDiagram,
+  type PngScale,
+  type RenderStyle,
+} from "@/lib/render";
+import { renderMermaidSVGAsync, type ThemeName } from "beautiful-mermaid";
+import { rasterizeSvgToPng } from "./rasterize";
+
+const DEFAULT_THEME: ThemeName = "github-light";
+const DEFAULT_STYLE: RenderStyle = "svg";
+const DEFAULT_PNG_SCALE: PngScale = 2;
+
+type RenderRequest = {
+  source: string;
+  theme: ThemeName;
+  style: RenderStyle;
+  /** The PNG scale a share token was made with, when it carries one. */
+  pngScale?: number;
+};
+
+class RenderApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return Response.json({ error: { code, message } }, { status });
+}
+
+function resolveTheme(value: unknown): ThemeName {
+  if (value === undefined || value === null || value === "") return DEFAULT_THEME;
+  if (typeof value !== "string" || !isThemeName(value)) {
+    throw new RenderApiError(400, "unknown_theme", `Unknown theme "${String(value)}".`);
+  }
+  return value;
+}
+
+function resolveStyle(value: unknown): RenderStyle {
+  if (value === undefined || value === null || value === "") return DEFAULT_STYLE;
+  if (typeof value !== "string" || !isRenderStyle(value)) {
+    throw new RenderApiError(
+      400,
+      "unknown_style",
+      `Unknown render style "${String(value)}". Use svg, unicode or ascii.`,
+    );
+  }
+  return value;
+}
+
+/** `?scale=` when given, else the token's scale if the API supports it, else the default. */
+function resolvePngScale(value: string | null, tokenScale?: number): PngScale {
+  if (value === null || value === "") {
+    return tokenScale !== undefined && isPngScale(tokenScale) ? tokenScale : DEFAULT_PNG_SCALE;
+  }
+  const scale = Number(value);
+  if (!isPngScale(scale)) {
+    throw new RenderApiError(400, "unknown_scale", `Unsupported PNG scale "${value}". Use ${PNG_SCALES.join(", ")}.`);
+  }
+  return scale;
+}
+
+async function readRenderRequest(request: Request): Promise<RenderRequest> {
+  const url = new URL(request.url);
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("application/json")) {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new RenderApiError(400, "invalid_json", "Request body is not valid JSON.");
+    }
+    const data = (body ?? {}) as Record<string, unknown>;
+    if (typeof data.source !== "string") {
+      throw new RenderApiError(400, "missing_source", 'Request body must include a "source" string.');
+    }
+    return {
+      source: data.source,
+      theme: resolveTheme(data.theme ?? url.searchParams.get("theme")),
+      style: resolveStyle(data.style ?? url.searchParams.get("style")),
+    };
+  }
+
+  // Anything else is treated as raw Mermaid text with settings in the query.
+  return {
+    source: await request.text(),
+    theme: resolveTheme(url.searchParams.get("theme")),
+    style: resolveStyle(url.searchParams.get("style")),
+  };
+}
+
+async function readTokenRequest(request: Request, token: string): Promise<RenderRequest> {
+  const url = new URL(request.url);
+  let payload;
+  try {
+    payload = await decodeDiagramToken(token);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new RenderApiError(400, "invalid_token", `Invalid share token: ${message}`);
+  }
+  return {
+    source: payload.source,
+    theme: resolveTheme(url.searchParams.get("theme") ?? payload.theme),
+    style: resolveStyle(url.searchParams.get("style") ?? payload.style),
+    pngScale: payload.pngScale,
+  };
+}
+
+async function renderResponse({ source, theme, style }: RenderRequest): Promise<Response> {
+  if (source.trim().length === 0) {
+    return errorResponse(400, "missing_source", "Diagram source is empty.");
+  }
+  try {
+    const rendered = await renderDiagram(source, { theme, style });
+    if (rendered.style === "svg") {
+      return new Response(rendered.svg, { headers: { "Content-Type": "image/svg+xml; charset=utf-8" } });
+    }
+    return new Response(rendered.text, { headers: { "Content-Type": "text/plain; charset=utf-8" } });
+  } catch (error) {
+    return errorResponse(422, "parse_error", error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function pngResponse({ source, theme }: RenderRequest, scale: PngScale): Promise<Response> {
+  if (source.trim().length === 0) {
+    return errorResponse(400, "missing_source", "Diagram source is empty.");
+  }
+  let svg: string;
+  try {
+    svg = await renderMermaidSVGAsync(source, getRenderOptions(theme));
+  } catch (error) {
+    return errorResponse(422, "parse_error", error instanceof Error ? error.message : String(error));
+  }
+  try {
+    return new Response(await rasterizeSvgToPng(svg, scale), { headers: { "Content-Type": "image/png" } });
+  } catch (error) {
+    return errorResponse(500, "rasterize_error", error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function handle(
+  read: () => Promise<RenderRequest>,
+  respond: (request: RenderRequest) => Promise<Response> = renderResponse,
+): Promise<Response> {
+  try {
+    return await respond(await read());
+  } catch (error) {
+    if (error instanceof RenderApiError) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * `POST /api/render` takes JSON `{ source, theme?, style? }` or raw Mermaid
+ * text with `?theme=&style=`. `GET /api/render/:token` renders a share token,
+ * using the settings it carries unless the query overrides them. The
+ * `/api/png` routes take the same input plus `?scale=` and always rasterize
+ * the SVG render; a token's own PNG scale applies when `?scale=` is absent.
+ */
+export const renderApiRoutes = {
+  "/api/render": {
+    POST: (request: Request) => handle(() => readRenderRequest(request)),
+  },
+  "/api/render/:token": {
+    GET: (request: Bun.BunRequest<"/api/render/:token">) =>
+      handle(() => readTokenRequest(request, request.params.token)),
+  },
+  "/api/png": {
+    POST: (request: Request) =>
+      handle(
+        () => readRenderRequest(request),
+        render => pngResponse(render, resolvePngScale(new URL(request.url).searchParams.get("scale"))),
+      ),
+  },
+  "/api/png/:token": {
+    GET: (request: Bun.BunRequest<"/api/png/:token">) =>
+      handle(
+        () => readTokenRequest(request, request.params.token),
+        render => pngResponse(render, resolvePngScale(new URL(request.url).searchParams.get("scale"), render.pngScale)),
+      ),
+  },
+};
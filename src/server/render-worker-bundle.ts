@@ -0,0 +1,39 @@
+import path from "path";
+
+const RENDER_WORKER_ENTRY = path.join(import.meta.dir, "..", "render-worker.ts");
+const isProduction = process.env.NODE_ENV === "production";
+
+let cachedBundle: Promise<string> | null = null;
+
+async function bundleRenderWorker(): Promise<string> {
+  const result = await Bun.build({
+    entrypoints: [RENDER_WORKER_ENTRY],
+    target: "browser",
+    minify: isProduction,
+    define: {
+      "process.env.NODE_ENV": JSON.stringify(isProduction ? "production" : "development"),
+    },
+  });
+  const output = result.outputs[0];
+  if (!result.success || !output) {
+    throw new AggregateError(result.logs, "Failed to bundle the render worker.");
+  }
+  return output.text();
+}
+
+/**
+ * Serve the render worker script. Static builds emit it from build.ts; the
+ * Bun server bundles it on request (once in production).
+ */
+export async function serveRenderWorker(): Promise<Response> {
+  const bundle = isProduction ? (cachedBundle ??= bundleRenderWorker()) : bundleRenderWorker();
+  try {
+    return new Response(await bundle, {
+      headers: { "Content-Type": "text/javascript; charset=utf-8" },
+    });
+  } catch (error) {
+    cachedBundle = null;
+    console.error(error);
+    return new Response("Render worker is unavailable.", { status: 500 });
+  }
+}